@@ -1,10 +1,35 @@
 import React, { useState, useCallback, useMemo, useRef, useEffect } from 'react';
 import { Sidebar } from './components/Sidebar';
 import { WorkflowCanvas } from './components/WorkflowCanvas';
-import { Node, Edge, VariableDefinition, VariableType } from './types';
-import { WorkflowEngine } from './services/workflowEngine';
+import { Node, NodeType, Edge, VariableDefinition, VariableType, ScopeKind, ValidationIssue, WorkflowSettings, ModelPrice, DEFAULT_MAX_CONCURRENCY, DEFAULT_NODE_TIMEOUTS, AI_MODELS, getSourceHandles, isTriggerType, ScheduleTriggerOutput } from './types';
+import { WorkflowEngine, RerunOptions } from './services/workflowEngine';
+import { LogEntry, applyWorkflowEvent } from './services/workflowEvents';
+import { parseWorkflowFile, serializeWorkflow } from './services/workflowFile';
+import { indexedDbResponseCache, countCachedResponses, clearResponseCache } from './services/aiResponseCache';
+import { SavedWorkflowSummary, indexedDbWorkflowLibrary, listSavedWorkflows, saveWorkflowToLibrary, deleteSavedWorkflow } from './services/workflowLibrary';
+import { RunRecord, RunSummary, recordRun, saveRun, listRuns, getRun, deleteRuns, clearRuns } from './services/runHistory';
+import { RunHistoryPanel } from './components/RunHistoryPanel';
+import { DebugPanel, PausedNodeView } from './components/DebugPanel';
+import { LogPanel } from './components/LogPanel';
+import { RunStatsPanel } from './components/RunStatsPanel';
+import { RunStats } from './services/runMetrics';
+import { estimateWorkflowCost, getModelPrice, formatCost } from './services/costEstimator';
+import { validateWorkflow, hasBlockingIssues } from './services/workflowValidator';
+import { inferScopeKinds } from './services/variableScope';
+import { startSchedule } from './services/scheduler';
+import { parseCron, getCronError, getNextFireTime, getLocalTimeZone, isValidTimeZone, formatFireTime } from './services/cronSchedule';
 import * as Icons from 'lucide-react';
 
+// Last fire time of the schedule trigger, so fires missed while the editor was closed can be caught up
+const SCHEDULE_STATE_KEY = 'flowgen-schedule';
+
+interface ScheduleState {
+  nodeId: string;
+  cron: string;
+  timezone: string;
+  lastFiredAt: number;
+}
+
 const INITIAL_NODES: Node[] = [
   {
     id: 'start-1',
@@ -17,11 +42,31 @@ const INITIAL_NODES: Node[] = [
 const App: React.FC = () => {
   const [nodes, setNodes] = useState<Node[]>(INITIAL_NODES);
   const [edges, setEdges] = useState<Edge[]>([]);
+  const [settings, setSettings] = useState<WorkflowSettings>({ maxConcurrency: DEFAULT_MAX_CONCURRENCY });
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
-  const [logs, setLogs] = useState<string[]>([]);
+  const [logs, setLogs] = useState<LogEntry[]>([]);
+  const [validationIssues, setValidationIssues] = useState<ValidationIssue[]>([]);
+  const [isRunning, setIsRunning] = useState(false);
+  const [showSettings, setShowSettings] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [runHistory, setRunHistory] = useState<RunSummary[]>([]);
+  const [viewedRun, setViewedRun] = useState<RunRecord | null>(null); // Past run shown read-only on the canvas
+  const [pausedNodes, setPausedNodes] = useState<PausedNodeView[]>([]); // Nodes held by the debugger
+  const [runStats, setRunStats] = useState<RunStats | null>(null); // Summary of the last (or viewed) run
+  const [cachedResponseCount, setCachedResponseCount] = useState<number | null>(null);
+  const [lastRunVariables, setLastRunVariables] = useState<Record<string, any>>({}); // Final variables of the last run, for partial re-runs
+  const [showLibrary, setShowLibrary] = useState(false);
+  const [savedWorkflows, setSavedWorkflows] = useState<SavedWorkflowSummary[]>([]); // Library that sub-workflow nodes call into
+  const [libraryName, setLibraryName] = useState(''); // Name the open workflow was last saved to the library under
+  const engineRef = useRef<WorkflowEngine | null>(null);
   const [copiedNode, setCopiedNode] = useState<Node | null>(null); // Clipboard state
   const fileInputRef = useRef<HTMLInputElement>(null);
 
+  // Editor messages share the execution log, without a run id
+  const appendLog = useCallback((message: string) => {
+    setLogs(prev => [...prev, { timestamp: Date.now(), level: 'info', message }]);
+  }, []);
+
   // Load from LocalStorage on mount (Auto-restore)
   useEffect(() => {
       const saved = localStorage.getItem('flowgen-data');
@@ -31,13 +76,14 @@ const App: React.FC = () => {
               if (parsed.nodes && parsed.edges) {
                   setNodes(parsed.nodes);
                   setEdges(parsed.edges);
-                  setLogs(['Restored workflow from local storage.']);
+                  if (parsed.settings) setSettings(parsed.settings);
+                  appendLog('Restored workflow from local storage.');
               }
           } catch (e) {
               console.error("Failed to auto-load workflow", e);
           }
       }
-  }, []);
+  }, [appendLog]);
 
   // Handlers
   const handleNodeSelect = useCallback((id: string | null) => {
@@ -45,7 +91,16 @@ const App: React.FC = () => {
   }, []);
 
   const handleNodeChange = useCallback((id: string, data: any) => {
-    setNodes(nds => nds.map(n => n.id === id ? { ...n, data } : n));
+    setNodes(nds => {
+      const updated = nds.map(n => n.id === id ? { ...n, data } : n);
+      // Drop connections from outputs the node no longer exposes (e.g. error output turned off)
+      const node = updated.find(n => n.id === id);
+      if (node) {
+        const handles = getSourceHandles(node);
+        setEdges(eds => eds.filter(e => e.source !== id || !e.sourceHandle || handles.includes(e.sourceHandle)));
+      }
+      return updated;
+    });
   }, []);
 
   const handleNodeDelete = useCallback((id: string) => {
@@ -54,9 +109,272 @@ const App: React.FC = () => {
     setSelectedNodeId(null);
   }, []);
 
-  const handleRunWorkflow = async () => {
-    const engine = new WorkflowEngine(nodes, edges, setNodes, setLogs);
-    await engine.run();
+  const handleValidate = useCallback(() => {
+    const issues = validateWorkflow(nodes, edges);
+    setValidationIssues(issues);
+    return issues;
+  }, [nodes, edges]);
+
+  const refreshRunHistory = useCallback(() => {
+    listRuns().then(setRunHistory).catch(err => console.error("Failed to load run history", err));
+  }, []);
+
+  // Scheduled runs pass the schedule trigger's output and skip breakpoints, as nobody may be watching
+  const handleRunWorkflow = async (rerun?: RerunOptions, scheduled?: ScheduleTriggerOutput) => {
+    setViewedRun(null);
+    // Highlight problems on the canvas; the engine re-validates and blocks on errors
+    handleValidate();
+    const engine = new WorkflowEngine(nodes, edges, settings);
+    engine.responseCache = indexedDbResponseCache;
+    engine.workflowLibrary = indexedDbWorkflowLibrary;
+    const recording = recordRun(engine, nodes, edges);
+    // Mirror run progress onto the canvas and the log console
+    const unsubscribe = engine.subscribe(event => {
+      if (event.type === 'log') {
+        const { type, ...entry } = event;
+        setLogs(prev => [...prev, entry]);
+        return;
+      }
+      setNodes(nds => applyWorkflowEvent(nds, event));
+      if (event.type === 'node-paused') {
+        const label = nodes.find(n => n.id === event.nodeId)?.data.label || event.nodeId;
+        setPausedNodes(prev => [...prev.filter(p => p.nodeId !== event.nodeId), { nodeId: event.nodeId, label, snapshot: event.snapshot }]);
+        setSelectedNodeId(event.nodeId);
+      } else if (event.type === 'node-resumed' || event.type === 'node-cancelled') {
+        setPausedNodes(prev => prev.filter(p => p.nodeId !== event.nodeId));
+      }
+    });
+    engineRef.current = engine;
+    setLogs([]);
+    setRunStats(null);
+    setIsRunning(true);
+    try {
+      const result = await engine.run({ debug: !scheduled, rerun, payload: scheduled });
+      setLastRunVariables(result.variables);
+      // Runs blocked before anything executed have nothing to summarize
+      if (result.stats.criticalPath.length > 0) setRunStats(result.stats);
+    } finally {
+      unsubscribe();
+      engineRef.current = null;
+      setIsRunning(false);
+      setPausedNodes([]);
+    }
+    recording
+      .then(saveRun)
+      .then(refreshRunHistory)
+      .catch(err => console.error("Failed to save run to history", err));
+  };
+
+  // Re-runs part of the workflow on top of the outputs currently shown on the canvas and the last run's variables
+  const handleRunNode = (nodeId: string, mode: 'from' | 'only') => {
+    const outputs = Object.fromEntries(
+      nodes.filter(n => n.data.status === 'success').map(n => [n.id, n.data.outputValue])
+    );
+    handleRunWorkflow({ nodeId, mode, outputs, variables: lastRunVariables });
+  };
+
+  // --- Schedule Trigger ---
+
+  // Fires start runs of the workflow as it is at that moment
+  const runWorkflowRef = useRef(handleRunWorkflow);
+  runWorkflowRef.current = handleRunWorkflow;
+  const [nextScheduledRun, setNextScheduledRun] = useState<number | null>(null);
+
+  const trigger = nodes.find(n => isTriggerType(n.type));
+  const schedule = trigger?.type === 'schedule' && trigger.data.scheduleInBrowser ? {
+    nodeId: trigger.id,
+    cron: trigger.data.scheduleCron || '',
+    timezone: trigger.data.scheduleTimezone || getLocalTimeZone(),
+    missedRuns: trigger.data.scheduleMissedRuns
+  } : null;
+
+  useEffect(() => {
+    if (!schedule) {
+      setNextScheduledRun(null);
+      return;
+    }
+    // Invalid cron or time zone: the validator reports it on the node
+    if (getCronError(schedule.cron) !== null || !isValidTimeZone(schedule.timezone)) {
+      setNextScheduledRun(null);
+      return;
+    }
+    const cronSchedule = parseCron(schedule.cron);
+    const updateNextRun = () => setNextScheduledRun(getNextFireTime(cronSchedule, schedule.timezone, Date.now()));
+    const saveState = (lastFiredAt: number) => {
+      const state: ScheduleState = { nodeId: schedule.nodeId, cron: schedule.cron, timezone: schedule.timezone, lastFiredAt };
+      localStorage.setItem(SCHEDULE_STATE_KEY, JSON.stringify(state));
+    };
+
+    // Only a schedule unchanged since it was last saved has missed runs to catch up on
+    let lastFiredAt: number | undefined;
+    try {
+      const saved: ScheduleState | null = JSON.parse(localStorage.getItem(SCHEDULE_STATE_KEY) || 'null');
+      if (saved && saved.nodeId === schedule.nodeId && saved.cron === schedule.cron && saved.timezone === schedule.timezone) {
+        lastFiredAt = saved.lastFiredAt;
+      }
+    } catch (e) {
+      console.error("Failed to read schedule state", e);
+    }
+
+    const handle = startSchedule({
+      cron: schedule.cron,
+      timezone: schedule.timezone,
+      missedRuns: schedule.missedRuns,
+      lastFiredAt,
+      onFire: async (scheduled) => {
+        if (engineRef.current) {
+          appendLog(`Skipped scheduled run for ${formatFireTime(Date.parse(scheduled.scheduledTime), schedule.timezone)}: a run is already in progress.`);
+          return;
+        }
+        await runWorkflowRef.current(undefined, scheduled);
+      },
+      onSkip: (times) => {
+        appendLog(`Skipped ${times.length} missed scheduled run${times.length === 1 ? '' : 's'} (latest ${formatFireTime(times[times.length - 1], schedule.timezone)}).`);
+      },
+      onAdvance: (time) => {
+        saveState(time);
+        updateNextRun();
+      }
+    });
+    updateNextRun();
+
+    return () => {
+      handle.stop();
+      // Turning the schedule off or editing it isn't missing runs; closing the editor is
+      saveState(Date.now());
+    };
+  }, [schedule?.nodeId, schedule?.cron, schedule?.timezone, schedule?.missedRuns, appendLog]);
+
+  // --- AI Response Cache ---
+
+  const refreshCacheCount = () => {
+    countCachedResponses().then(setCachedResponseCount).catch(err => console.error("Failed to read response cache", err));
+  };
+
+  const handleToggleSettings = () => {
+    if (!showSettings) refreshCacheCount();
+    setShowSettings(!showSettings);
+  };
+
+  const handleClearResponseCache = async () => {
+    if (!window.confirm("Delete all cached AI responses?")) return;
+    await clearResponseCache();
+    refreshCacheCount();
+    appendLog("Cleared AI response cache.");
+  };
+
+  // --- Workflow Library ---
+
+  const refreshSavedWorkflows = useCallback(() => {
+    listSavedWorkflows().then(setSavedWorkflows).catch(err => console.error("Failed to load workflow library", err));
+  }, []);
+
+  useEffect(() => {
+    refreshSavedWorkflows();
+  }, [refreshSavedWorkflows]);
+
+  const handleToggleLibrary = () => {
+    if (!showLibrary) refreshSavedWorkflows();
+    setShowLibrary(!showLibrary);
+  };
+
+  const handleSaveToLibrary = async () => {
+    const name = window.prompt("Save to library as:", libraryName)?.trim();
+    if (!name) return;
+    if (name !== libraryName && savedWorkflows.some(w => w.name === name) && !window.confirm(`Replace the saved workflow '${name}'?`)) return;
+    try {
+      await saveWorkflowToLibrary(name, { nodes, edges, settings });
+      setLibraryName(name);
+      refreshSavedWorkflows();
+      appendLog(`Saved workflow to library as '${name}'.`);
+    } catch (err: any) {
+      alert(`Failed to save workflow: ${err.message}`);
+    }
+  };
+
+  const handleOpenSavedWorkflow = async (name: string) => {
+    const workflow = await indexedDbWorkflowLibrary.get(name);
+    if (!workflow) {
+      refreshSavedWorkflows();
+      return;
+    }
+    setNodes(workflow.nodes);
+    setEdges(workflow.edges);
+    setSettings(workflow.settings || { maxConcurrency: DEFAULT_MAX_CONCURRENCY });
+    setLibraryName(name);
+    setLastRunVariables({});
+    setShowLibrary(false);
+    setLogs([]);
+    appendLog(`Opened '${name}' from the library.`);
+  };
+
+  const handleDeleteSavedWorkflow = async (name: string) => {
+    if (!window.confirm(`Delete '${name}' from the library? Sub-workflow nodes calling it will fail.`)) return;
+    await deleteSavedWorkflow(name);
+    if (name === libraryName) setLibraryName('');
+    refreshSavedWorkflows();
+  };
+
+  // --- Run History ---
+
+  const handleToggleHistory = () => {
+    if (!showHistory) refreshRunHistory();
+    setShowHistory(!showHistory);
+  };
+
+  const handleOpenRun = async (id: string) => {
+    const run = await getRun(id);
+    if (!run) {
+      refreshRunHistory();
+      return;
+    }
+    setViewedRun(run);
+    setLogs(run.logs);
+    setRunStats(run.stats ?? null);
+    setSelectedNodeId(null);
+  };
+
+  const handleCloseRun = () => {
+    setViewedRun(null);
+    setRunStats(null);
+    setSelectedNodeId(null);
+  };
+
+  // Replaces the editor's workflow with the one the run was made with, outputs included
+  const handleRestoreRun = () => {
+    if (!viewedRun) return;
+    if (!window.confirm("Replace the current workflow with the one from this run?")) return;
+    setNodes(viewedRun.nodes);
+    setEdges(viewedRun.edges);
+    setLastRunVariables(viewedRun.variables);
+    setViewedRun(null);
+  };
+
+  const handleDeleteRun = async (id: string) => {
+    await deleteRuns([id]);
+    if (viewedRun?.id === id) handleCloseRun();
+    refreshRunHistory();
+  };
+
+  const handleClearRunHistory = async () => {
+    if (!window.confirm("Delete all recorded runs?")) return;
+    await clearRuns();
+    handleCloseRun();
+    refreshRunHistory();
+  };
+
+  const handleStopWorkflow = () => {
+    engineRef.current?.cancel();
+  };
+
+  // --- Debugger ---
+
+  const handleDebugStep = () => engineRef.current?.step();
+
+  const handleDebugResume = () => engineRef.current?.resume();
+
+  const handleDebugSetVariable = (nodeId: string, name: string, value: any) => {
+    engineRef.current?.setVariable(nodeId, name, value);
   };
 
   const handleClear = () => {
@@ -64,6 +382,7 @@ const App: React.FC = () => {
         setNodes(INITIAL_NODES);
         setEdges([]);
         setLogs([]);
+        setValidationIssues([]);
         setSelectedNodeId(null);
       }
   };
@@ -71,16 +390,15 @@ const App: React.FC = () => {
   // --- Persistence Handlers ---
 
   const handleSave = useCallback(() => {
-    const data = { nodes, edges, timestamp: Date.now() };
+    const data = { nodes, edges, settings, timestamp: Date.now() };
     localStorage.setItem('flowgen-data', JSON.stringify(data));
     const prevTitle = document.title;
     document.title = "Saved! - FlowGen AI";
     setTimeout(() => document.title = prevTitle, 2000);
-  }, [nodes, edges]);
+  }, [nodes, edges, settings]);
 
   const handleExport = () => {
-    const data = { nodes, edges, exportedAt: new Date().toISOString() };
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+    const blob = new Blob([serializeWorkflow({ nodes, edges, settings })], { type: 'application/json' });
     const url = URL.createObjectURL(blob);
     const link = document.createElement('a');
     link.href = url;
@@ -100,17 +418,15 @@ const App: React.FC = () => {
       const reader = new FileReader();
       reader.onload = (e) => {
         try {
-          const content = e.target?.result as string;
-          const parsed = JSON.parse(content);
-          if (Array.isArray(parsed.nodes) && Array.isArray(parsed.edges)) {
-             setNodes(parsed.nodes);
-             setEdges(parsed.edges);
-             setLogs([`Imported workflow: ${file.name}`]);
-          } else {
-             alert('Invalid workflow file format. Missing nodes or edges arrays.');
-          }
-        } catch (err) {
-           alert('Failed to parse JSON file.');
+          const parsed = parseWorkflowFile(e.target?.result as string);
+          setNodes(parsed.nodes);
+          setEdges(parsed.edges);
+          if (parsed.settings) setSettings(parsed.settings);
+          setLastRunVariables({});
+          setLogs([]);
+          appendLog(`Imported workflow: ${file.name}`);
+        } catch (err: any) {
+           alert(err.message);
            console.error(err);
         }
         // Reset input
@@ -127,10 +443,10 @@ const App: React.FC = () => {
         const node = nodes.find(n => n.id === selectedNodeId);
         if (node) {
             setCopiedNode(node);
-            setLogs(prev => [...prev, `Copied node: ${node.data.label}`]);
+            appendLog(`Copied node: ${node.data.label}`);
         }
     }
-  }, [selectedNodeId, nodes]);
+  }, [selectedNodeId, nodes, appendLog]);
 
   const handlePaste = useCallback(() => {
     if (copiedNode) {
@@ -148,6 +464,7 @@ const App: React.FC = () => {
         newData.status = 'idle';
         newData.outputValue = null;
         newData.errorMessage = undefined;
+        newData.metrics = undefined;
 
         const newNode: Node = {
             id: newNodeId,
@@ -158,12 +475,12 @@ const App: React.FC = () => {
 
         setNodes(prev => [...prev, newNode]);
         setSelectedNodeId(newNodeId);
-        setLogs(prev => [...prev, `Pasted node: ${newData.label}`]);
+        appendLog(`Pasted node: ${newData.label}`);
 
         // Update copied node position so subsequent pastes cascade
         setCopiedNode({ ...copiedNode, position: newPosition });
     }
-  }, [copiedNode]);
+  }, [copiedNode, appendLog]);
 
   // --- Keyboard Shortcuts ---
   useEffect(() => {
@@ -172,6 +489,8 @@ const App: React.FC = () => {
           const target = e.target as HTMLElement;
           const isInput = ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName) || target.isContentEditable;
           if (isInput) return;
+          // Past runs are read-only
+          if (viewedRun) return;
 
           // Cmd/Ctrl combinations
           if (e.metaKey || e.ctrlKey) {
@@ -201,14 +520,24 @@ const App: React.FC = () => {
 
       window.addEventListener('keydown', handleKeyDown);
       return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [handleCopy, handlePaste, handleSave, selectedNodeId, handleNodeDelete]);
+  }, [handleCopy, handlePaste, handleSave, selectedNodeId, handleNodeDelete, viewedRun]);
 
 
   // Derive available variables from nodes with type inference
   const availableVariables = useMemo<VariableDefinition[]>(() => {
     const vars = new Map<string, VariableType>();
+    const scopes = new Map<string, ScopeKind>();
+    const nodeScopes = inferScopeKinds(nodes, edges);
+    // A name written in several places is listed under its widest scope
+    const SCOPE_ORDER: ScopeKind[] = ['global', 'branch', 'loop'];
+    const addScope = (name: string, scope: ScopeKind) => {
+        const current = scopes.get(name);
+        if (!current || SCOPE_ORDER.indexOf(scope) < SCOPE_ORDER.indexOf(current)) scopes.set(name, scope);
+    };
 
     nodes.forEach(n => {
+        const writeScope: ScopeKind = n.data.storeGlobally ? 'global' : (nodeScopes[n.id] || 'global');
+
         // 1. Primary Output Variable
         if (n.data.outputVariableName && n.data.outputVariableName.trim() !== '') {
             let type: VariableType = 'any';
@@ -222,15 +551,24 @@ const App: React.FC = () => {
                 } else {
                     type = 'text';
                 }
-            } else if (n.type === 'webhook') {
+            } else if (isTriggerType(n.type)) {
                 type = 'json';
-            } else if (n.type === 'api') {
+            } else if (n.type === 'api' || n.type === 'sub-workflow') {
                 type = 'json';
             } else if (n.type === 'loop') {
-                type = 'any';
+                type = 'json'; // Array of iteration results
             }
 
             vars.set(n.data.outputVariableName, type);
+            addScope(n.data.outputVariableName, writeScope);
+        }
+
+        // Loop iteration bindings (available inside the body branch)
+        if (n.type === 'loop') {
+            if (!vars.has('item')) vars.set('item', 'any');
+            if (!vars.has('index')) vars.set('index', 'text');
+            addScope('item', 'loop');
+            addScope('index', 'loop');
         }
 
         // 2. Output Mappings (Extraction)
@@ -249,6 +587,8 @@ const App: React.FC = () => {
                         } else {
                             inferredType = 'text';
                         }
+                    } else if (n.type === 'schedule') {
+                        inferredType = 'text'; // Times, zone and cron are strings
                     } else if (n.type === 'ai-text' && n.data.jsonSchema) {
                         // If extracting from JSON AI output, it's likely text or sub-json
                         inferredType = 'text'; // Default to text for extracted fields
@@ -258,13 +598,35 @@ const App: React.FC = () => {
                     if (!vars.has(m.variable) || vars.get(m.variable) === 'any') {
                          vars.set(m.variable, inferredType);
                     }
+                    addScope(m.variable, writeScope);
                 }
             });
         }
     });
 
-    return Array.from(vars.entries()).map(([name, type]) => ({ name, type }));
-  }, [nodes]);
+    return Array.from(vars.entries()).map(([name, type]) => ({ name, type, scope: scopes.get(name) }));
+  }, [nodes, edges]);
+
+  // Pre-run cost estimate shown next to the Run button
+  const costEstimate = useMemo(() => estimateWorkflowCost(nodes, edges, settings.modelPrices), [nodes, edges, settings.modelPrices]);
+  const costEstimateDetails = useMemo(() => {
+    const lines = costEstimate.nodes.map(e => {
+      const label = nodes.find(n => n.id === e.nodeId)?.data.label || e.nodeId;
+      return `${label}: ~${formatCost(e.costUsd)} (${e.model}${e.priced ? '' : ', no price'})${e.perIteration ? ' per loop iteration' : ''}`;
+    });
+    if (settings.budgetUsd) lines.push(`Budget: ${formatCost(settings.budgetUsd)}`);
+    lines.push("Prompts are counted as written; variables and context from previous steps add to the actual cost.");
+    return lines.join('\n');
+  }, [costEstimate, nodes, settings.budgetUsd]);
+
+  const handlePriceChange = (model: string, field: keyof ModelPrice, text: string) => {
+    const value = parseFloat(text);
+    if (isNaN(value)) return;
+    setSettings(prev => ({
+        ...prev,
+        modelPrices: { ...prev.modelPrices, [model]: { ...(getModelPrice(model, prev.modelPrices) || { inputPerMillion: 0, outputPerMillion: 0 }), [field]: Math.max(0, value) } }
+    }));
+  };
 
   return (
     <div className="flex flex-col h-screen w-screen bg-slate-50 text-slate-900">
@@ -323,7 +685,208 @@ const App: React.FC = () => {
              <div className="text-xs text-slate-400 mr-2 hidden xl:block border-l border-slate-200 pl-3">
                  {nodes.length} nodes · {edges.length} connections
              </div>
+
+             {/* Workflow Library */}
+             <div className="relative">
+                <button 
+                    onClick={handleToggleLibrary}
+                    className={`p-2 rounded-md transition-colors ${showLibrary ? 'text-indigo-600 bg-indigo-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                    title="Workflow Library"
+                >
+                    <Icons.Library size={16} />
+                </button>
+                {showLibrary && (
+                    <div className="absolute right-0 top-11 w-72 max-h-[80vh] overflow-y-auto bg-white border border-slate-200 rounded-xl shadow-xl p-4 space-y-3 z-40 text-xs">
+                        <div className="font-bold text-slate-700 flex items-center gap-2">
+                            <Icons.Library size={12} /> Workflow Library
+                        </div>
+                        <button 
+                            onClick={handleSaveToLibrary}
+                            className="w-full flex items-center justify-center gap-1 px-2 py-1.5 rounded border border-indigo-200 text-indigo-600 hover:bg-indigo-50 font-medium"
+                        >
+                            <Icons.BookmarkPlus size={12} /> {libraryName ? `Save as '${libraryName}'...` : 'Save current workflow...'}
+                        </button>
+                        {savedWorkflows.length === 0 ? (
+                            <p className="text-slate-400">No saved workflows yet. Saved workflows can be called from Sub-workflow nodes.</p>
+                        ) : (
+                            <div className="space-y-1">
+                                {savedWorkflows.map(w => (
+                                    <div key={w.name} className={`group flex items-start gap-2 p-2 rounded border ${w.name === libraryName ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-100 hover:border-slate-200'}`}>
+                                        <button onClick={() => handleOpenSavedWorkflow(w.name)} className="flex-1 min-w-0 text-left" title="Open in the editor">
+                                            <div className="font-medium text-slate-700 truncate">{w.name}</div>
+                                            <div className="text-[10px] text-slate-400">{w.nodeCount} nodes · {new Date(w.savedAt).toLocaleString()}</div>
+                                            {(w.inputs.length > 0 || w.outputs.length > 0) && (
+                                                <div className="text-[10px] font-mono text-slate-500 truncate">
+                                                    ({w.inputs.join(', ')}) → ({w.outputs.join(', ')})
+                                                </div>
+                                            )}
+                                        </button>
+                                        <button 
+                                            onClick={() => handleDeleteSavedWorkflow(w.name)}
+                                            className="p-1 text-slate-300 hover:text-red-500 opacity-0 group-hover:opacity-100"
+                                            title="Delete from library"
+                                        >
+                                            <Icons.Trash2 size={12} />
+                                        </button>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                )}
+             </div>
+
+             {/* Run History */}
+             <button 
+                onClick={handleToggleHistory}
+                className={`p-2 rounded-md transition-colors ${showHistory ? 'text-indigo-600 bg-indigo-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                title="Run History"
+             >
+                <Icons.History size={16} />
+             </button>
+
+             {/* Execution Settings */}
+             <div className="relative mr-2">
+                <button 
+                    onClick={handleToggleSettings}
+                    className={`p-2 rounded-md transition-colors ${showSettings ? 'text-indigo-600 bg-indigo-50' : 'text-slate-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
+                    title="Execution Settings"
+                >
+                    <Icons.SlidersHorizontal size={16} />
+                </button>
+                {showSettings && (
+                    <div className="absolute right-0 top-11 w-64 max-h-[80vh] overflow-y-auto bg-white border border-slate-200 rounded-xl shadow-xl p-4 space-y-3 z-40 text-xs">
+                        <div className="font-bold text-slate-700 flex items-center gap-2">
+                            <Icons.SlidersHorizontal size={12} /> Execution Settings
+                        </div>
+                        <label className="flex items-center justify-between gap-2 text-slate-600" title="Maximum number of nodes executing at the same time">
+                            <span className="flex items-center gap-1"><Icons.Layers size={12} /> Max parallel nodes</span>
+                            <input 
+                                type="number"
+                                min={1}
+                                max={16}
+                                value={settings.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY}
+                                onChange={(e) => {
+                                    const value = parseInt(e.target.value, 10);
+                                    setSettings(prev => ({ ...prev, maxConcurrency: isNaN(value) ? undefined : Math.max(1, value) }));
+                                }}
+                                className="w-16 px-1 py-1 bg-white border border-slate-200 rounded text-xs text-center"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2 text-slate-600" title="Stop the whole run after this many seconds (0 = no limit)">
+                            <span className="flex items-center gap-1"><Icons.Timer size={12} /> Run timeout (s)</span>
+                            <input 
+                                type="number"
+                                min={0}
+                                value={settings.runTimeoutMs ? settings.runTimeoutMs / 1000 : 0}
+                                onChange={(e) => {
+                                    const seconds = parseFloat(e.target.value);
+                                    setSettings(prev => ({ ...prev, runTimeoutMs: isNaN(seconds) || seconds <= 0 ? undefined : seconds * 1000 }));
+                                }}
+                                className="w-16 px-1 py-1 bg-white border border-slate-200 rounded text-xs text-center"
+                            />
+                        </label>
+                        <label className="flex items-center justify-between gap-2 text-slate-600" title="Stop the run before an AI request that would take its cost past this amount (0 = no limit)">
+                            <span className="flex items-center gap-1"><Icons.Wallet size={12} /> Budget per run ($)</span>
+                            <input 
+                                type="number"
+                                min={0}
+                                step={0.01}
+                                value={settings.budgetUsd ?? 0}
+                                onChange={(e) => {
+                                    const usd = parseFloat(e.target.value);
+                                    setSettings(prev => ({ ...prev, budgetUsd: isNaN(usd) || usd <= 0 ? undefined : usd }));
+                                }}
+                                className="w-16 px-1 py-1 bg-white border border-slate-200 rounded text-xs text-center"
+                            />
+                        </label>
+                        <label className="block space-y-1 text-slate-600" title="Variables returned to Sub-workflow nodes that call this workflow, comma separated. Without any, they get the output of the last node.">
+                            <span className="flex items-center gap-1"><Icons.Workflow size={12} /> Sub-workflow outputs</span>
+                            <input 
+                                type="text"
+                                key={(settings.outputVariables || []).join(',')}
+                                defaultValue={(settings.outputVariables || []).join(', ')}
+                                onBlur={(e) => {
+                                    const names = e.target.value.split(',').map(name => name.trim()).filter(Boolean);
+                                    setSettings(prev => ({ ...prev, outputVariables: names.length > 0 ? names : undefined }));
+                                }}
+                                placeholder="summary, score"
+                                className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs font-mono"
+                            />
+                        </label>
+                        <div className="flex items-center justify-between gap-2 text-slate-600" title="Responses stored for AI nodes with 'Use cache' enabled">
+                            <span className="flex items-center gap-1"><Icons.DatabaseZap size={12} /> Cached AI responses: {cachedResponseCount ?? '–'}</span>
+                            <button 
+                                onClick={handleClearResponseCache}
+                                disabled={!cachedResponseCount}
+                                className="px-2 py-0.5 rounded border border-slate-200 text-slate-500 hover:text-red-600 hover:border-red-200 disabled:opacity-40 disabled:hover:text-slate-500 disabled:hover:border-slate-200"
+                            >
+                                Clear
+                            </button>
+                        </div>
+                        <div className="pt-2 border-t border-slate-100 space-y-2">
+                            <div className="text-[10px] font-bold text-slate-400 uppercase">Default node timeouts (s)</div>
+                            {(Object.keys(DEFAULT_NODE_TIMEOUTS) as NodeType[]).map(type => (
+                                <label key={type} className="flex items-center justify-between gap-2 text-slate-600">
+                                    <span className="font-mono">{type}</span>
+                                    <input 
+                                        type="number"
+                                        min={0}
+                                        value={(settings.nodeTimeouts?.[type] ?? DEFAULT_NODE_TIMEOUTS[type]!) / 1000}
+                                        onChange={(e) => {
+                                            const seconds = parseFloat(e.target.value);
+                                            setSettings(prev => ({
+                                                ...prev,
+                                                nodeTimeouts: { ...prev.nodeTimeouts, [type]: isNaN(seconds) ? undefined : Math.max(0, seconds * 1000) }
+                                            }));
+                                        }}
+                                        className="w-16 px-1 py-1 bg-white border border-slate-200 rounded text-xs text-center"
+                                    />
+                                </label>
+                            ))}
+                        </div>
+                        <div className="pt-2 border-t border-slate-100 space-y-2">
+                            <div className="flex items-center justify-between text-[10px] font-bold text-slate-400 uppercase">
+                                <span>Prices ($ / 1M tokens, in / out)</span>
+                                {settings.modelPrices && (
+                                    <button onClick={() => setSettings(prev => ({ ...prev, modelPrices: undefined }))} className="normal-case font-normal text-slate-400 hover:text-indigo-600">
+                                        Reset
+                                    </button>
+                                )}
+                            </div>
+                            {AI_MODELS.map(model => {
+                                const price = getModelPrice(model.id, settings.modelPrices);
+                                return (
+                                    <div key={model.id} className="flex items-center justify-between gap-2 text-slate-600">
+                                        <span className="truncate" title={model.id}>{model.label}</span>
+                                        <div className="flex gap-1 shrink-0">
+                                            {(['inputPerMillion', 'outputPerMillion'] as const).map(field => (
+                                                <input 
+                                                    key={field}
+                                                    type="number"
+                                                    min={0}
+                                                    step={0.01}
+                                                    value={price?.[field] ?? 0}
+                                                    onChange={(e) => handlePriceChange(model.id, field, e.target.value)}
+                                                    className="w-12 px-1 py-1 bg-white border border-slate-200 rounded text-xs text-center"
+                                                />
+                                            ))}
+                                        </div>
+                                    </div>
+                                );
+                            })}
+                        </div>
+                    </div>
+                )}
+             </div>
              
+             <button 
+                onClick={handleValidate}
+                className="px-3 py-2 text-slate-500 hover:text-indigo-600 hover:bg-indigo-50 rounded-md text-sm font-medium transition-colors"
+                title="Validate Workflow"
+            >
+                <Icons.ShieldCheck size={16} />
+            </button>
              <button 
                 onClick={handleClear}
                 className="px-3 py-2 text-slate-500 hover:text-red-500 hover:bg-red-50 rounded-md text-sm font-medium transition-colors"
@@ -331,13 +894,36 @@ const App: React.FC = () => {
             >
                 <Icons.Trash2 size={16} />
             </button>
-            <button 
-                onClick={handleRunWorkflow}
-                className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium shadow-md shadow-indigo-200 transition-all active:scale-95"
-            >
-                <Icons.Play size={16} fill="currentColor" />
-                Run
-            </button>
+            {costEstimate.nodes.length > 0 && (
+                <span 
+                    className={`text-xs font-mono px-2 py-1 rounded ${settings.budgetUsd && costEstimate.totalUsd > settings.budgetUsd ? 'text-rose-700 bg-rose-50' : 'text-slate-500 bg-slate-100'}`}
+                    title={costEstimateDetails}
+                >
+                    ~{formatCost(costEstimate.totalUsd)}{costEstimate.nodes.some(e => e.perIteration) ? '+' : ''}
+                </span>
+            )}
+            {nextScheduledRun !== null && schedule && (
+                <span className="flex items-center gap-1 text-xs px-2 py-1 rounded text-teal-700 bg-teal-50" title={`Runs on '${schedule.cron}' (${schedule.timezone}) while this editor is open`}>
+                    <Icons.Clock size={12} /> {formatFireTime(nextScheduledRun, schedule.timezone)}
+                </span>
+            )}
+            {isRunning ? (
+                <button 
+                    onClick={handleStopWorkflow}
+                    className="flex items-center gap-2 px-5 py-2 bg-red-600 hover:bg-red-700 text-white rounded-md text-sm font-medium shadow-md shadow-red-200 transition-all active:scale-95"
+                >
+                    <Icons.Square size={16} fill="currentColor" />
+                    Stop
+                </button>
+            ) : (
+                <button 
+                    onClick={() => handleRunWorkflow()}
+                    className="flex items-center gap-2 px-5 py-2 bg-indigo-600 hover:bg-indigo-700 text-white rounded-md text-sm font-medium shadow-md shadow-indigo-200 transition-all active:scale-95"
+                >
+                    <Icons.Play size={16} fill="currentColor" />
+                    Run
+                </button>
+            )}
         </div>
       </header>
 
@@ -348,32 +934,122 @@ const App: React.FC = () => {
         <Sidebar availableVariables={availableVariables} />
 
         {/* Canvas Area */}
-        <div className="flex-1 relative flex flex-col">
-            <WorkflowCanvas 
-                nodes={nodes}
-                edges={edges}
-                onNodesChange={setNodes}
-                onEdgesChange={setEdges}
-                onNodeSelect={handleNodeSelect}
-                onNodeChange={handleNodeChange}
-                onNodeDelete={handleNodeDelete}
-                selectedNodeId={selectedNodeId}
-            />
-            
-            {/* Logs Console Overlay (Bottom Left) */}
-            {logs.length > 0 && (
-                <div className="absolute bottom-4 left-4 max-w-md w-full bg-slate-900/90 text-slate-300 text-xs font-mono p-4 rounded-xl shadow-2xl backdrop-blur-sm z-30 max-h-48 overflow-y-auto border border-slate-700">
-                    <div className="flex justify-between items-center mb-2 pb-2 border-b border-slate-700">
-                        <span className="font-bold text-slate-100">Execution Logs</span>
-                        <button onClick={() => setLogs([])} className="hover:text-white"><Icons.X size={12} /></button>
+        <div className="flex-1 flex flex-col overflow-hidden">
+            <div className="flex-1 relative flex flex-col">
+                {viewedRun ? (
+                    <WorkflowCanvas 
+                        nodes={viewedRun.nodes}
+                        edges={viewedRun.edges}
+                        onNodesChange={() => {}}
+                        onEdgesChange={() => {}}
+                        onNodeSelect={handleNodeSelect}
+                        onNodeChange={() => {}}
+                        onNodeDelete={() => {}}
+                        selectedNodeId={selectedNodeId}
+                    />
+                ) : (
+                    <WorkflowCanvas 
+                        nodes={nodes}
+                        edges={edges}
+                        onNodesChange={setNodes}
+                        onEdgesChange={setEdges}
+                        onNodeSelect={handleNodeSelect}
+                        onNodeChange={handleNodeChange}
+                        onNodeDelete={handleNodeDelete}
+                        selectedNodeId={selectedNodeId}
+                        validationIssues={validationIssues}
+                        onNodeRun={isRunning ? undefined : handleRunNode}
+                        savedWorkflows={savedWorkflows}
+                    />
+                )}
+
+                {/* Past Run Banner (Top Center) */}
+                {viewedRun && (
+                    <div className="absolute top-4 left-1/2 -translate-x-1/2 bg-slate-900 text-white text-xs px-4 py-2 rounded-full shadow-xl z-30 flex items-center gap-3">
+                        <Icons.History size={12} />
+                        <span>
+                            Viewing run from {new Date(viewedRun.startedAt).toLocaleString()} · <b>{viewedRun.outcome}</b>
+                        </span>
+                        <button onClick={handleRestoreRun} className="text-indigo-300 hover:text-white font-medium">Restore to editor</button>
+                        <button onClick={handleCloseRun} className="bg-white/10 hover:bg-white/20 px-2 py-0.5 rounded-full font-medium">Back to editor</button>
                     </div>
-                    <div className="space-y-1">
-                        {logs.map((log, i) => (
-                            <div key={i}>{log}</div>
-                        ))}
+                )}
+
+                {/* Run History Panel (Top Left) */}
+                {showHistory && (
+                    <RunHistoryPanel 
+                        runs={runHistory}
+                        openRun={viewedRun}
+                        onOpen={handleOpenRun}
+                        onDelete={handleDeleteRun}
+                        onClear={handleClearRunHistory}
+                        onClose={() => setShowHistory(false)}
+                        onSelectNode={handleNodeSelect}
+                    />
+                )}
+
+                {/* Validation Issues Overlay (Top Right) */}
+                {validationIssues.length > 0 && (
+                    <div className="absolute top-4 right-4 w-80 bg-white text-xs p-3 rounded-xl shadow-xl z-30 max-h-72 overflow-y-auto border border-slate-200">
+                        <div className="flex justify-between items-center mb-2 pb-2 border-b border-slate-100">
+                            <span className={`font-bold flex items-center gap-1 ${hasBlockingIssues(validationIssues) ? 'text-red-600' : 'text-amber-600'}`}>
+                                <Icons.TriangleAlert size={12} />
+                                {validationIssues.length} issue{validationIssues.length === 1 ? '' : 's'} found
+                            </span>
+                            <button onClick={() => setValidationIssues([])} className="text-slate-400 hover:text-slate-700"><Icons.X size={12} /></button>
+                        </div>
+                        <div className="space-y-1">
+                            {validationIssues.map((issue, i) => {
+                                const node = issue.nodeId ? nodes.find(n => n.id === issue.nodeId) : undefined;
+                                return (
+                                    <button
+                                        key={i}
+                                        onClick={() => node && handleNodeSelect(node.id)}
+                                        className="w-full text-left flex gap-2 items-start p-1.5 rounded hover:bg-slate-50"
+                                    >
+                                        <span className={`mt-0.5 w-1.5 h-1.5 rounded-full shrink-0 ${issue.severity === 'error' ? 'bg-red-500' : 'bg-amber-400'}`} />
+                                        <span className="text-slate-600">
+                                            {node && <span className="font-semibold text-slate-800">{node.data.label}: </span>}
+                                            {issue.message}
+                                        </span>
+                                    </button>
+                                );
+                            })}
+                        </div>
                     </div>
-                </div>
-            )}
+                )}
+            
+                {/* Debugger (Bottom Right) */}
+                {pausedNodes.length > 0 && (
+                    <DebugPanel 
+                        paused={pausedNodes}
+                        onStep={handleDebugStep}
+                        onResume={handleDebugResume}
+                        onStop={handleStopWorkflow}
+                        onSetVariable={handleDebugSetVariable}
+                        onSelectNode={handleNodeSelect}
+                    />
+                )}
+
+                {/* Run Summary (Bottom Right, once the run is over) */}
+                {runStats && pausedNodes.length === 0 && (
+                    <RunStatsPanel
+                        stats={runStats}
+                        nodes={viewedRun ? viewedRun.nodes : nodes}
+                        onSelectNode={handleNodeSelect}
+                        onClose={() => setRunStats(null)}
+                    />
+                )}
+            </div>
+
+            {/* Execution Log (docked below the canvas) */}
+            <LogPanel
+                entries={logs}
+                nodes={viewedRun ? viewedRun.nodes : nodes}
+                selectedNodeId={selectedNodeId}
+                onSelectNode={handleNodeSelect}
+                onClear={() => setLogs([])}
+            />
         </div>
       </div>
     </div>
@@ -0,0 +1,9 @@
+/**
+ * Makes the Gemini key available to services/geminiService under the name it reads,
+ * accepting the same GEMINI_API_KEY variable the web app gets from .env.local.
+ */
+export const loadApiKeyFromEnv = () => {
+    if (!process.env.API_KEY && process.env.GEMINI_API_KEY) {
+        process.env.API_KEY = process.env.GEMINI_API_KEY;
+    }
+};
@@ -0,0 +1,228 @@
+/**
+ * Runs an exported workflow from the command line.
+ *
+ *   node dist-cli/runWorkflow.js <workflow.json> [options] [< payload.json]
+ *
+ * Options:
+ *   --payload <file|->   Trigger payload (JSON, or raw text). `-` reads stdin, which is
+ *                        also used when input is piped and no --payload is given.
+ *   --out <dir>          Directory for generated images (default: ./workflow-output)
+ *   --concurrency <n>    Override the workflow's max parallel nodes
+ *   --timeout <seconds>  Override the workflow's run timeout
+ *   --budget <usd>       Override the workflow's budget per run (0 for none)
+ *   --workflows <dir>    Where Sub-workflow nodes find the workflows they call, as
+ *                        <name>.json (default: the workflow file's directory)
+ *   --quiet              Don't print execution logs
+ *
+ * Logs go to stderr and the final variables, including those set on parallel
+ * branches, are printed to stdout as JSON, with images replaced by the paths they
+ * were written to.
+ * Exit codes: 0 success, 1 the run did not succeed, 2 invalid usage or workflow file.
+ */
+import { readFile, mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { WorkflowEngine } from '../services/workflowEngine';
+import { formatLogEntry } from '../services/workflowEvents';
+import { parseWorkflowFile } from '../services/workflowFile';
+import { loadApiKeyFromEnv } from './env';
+import { directoryWorkflowLibrary } from './workflowDirectory';
+
+interface CliOptions {
+    workflowPath: string;
+    payloadPath?: string;
+    outDir: string;
+    concurrency?: number;
+    timeoutSeconds?: number;
+    budgetUsd?: number;
+    workflowsDir?: string;
+    quiet: boolean;
+}
+
+const USAGE = 'Usage: runWorkflow <workflow.json> [--payload <file|->] [--out <dir>] [--concurrency <n>] [--timeout <seconds>] [--budget <usd>] [--workflows <dir>] [--quiet]';
+
+class UsageError extends Error {}
+
+const parseArgs = (argv: string[]): CliOptions => {
+    const options: Partial<CliOptions> = { outDir: 'workflow-output', quiet: false };
+    const takeValue = (flag: string, index: number): string => {
+        const value = argv[index + 1];
+        if (value === undefined || (value.startsWith('--') && value !== '-')) throw new UsageError(`Missing value for ${flag}.`);
+        return value;
+    };
+    const takeNumber = (flag: string, index: number): number => {
+        const value = Number(takeValue(flag, index));
+        if (isNaN(value) || value < 0) throw new UsageError(`${flag} expects a non-negative number.`);
+        return value;
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        switch (arg) {
+            case '--payload': options.payloadPath = takeValue(arg, i++); break;
+            case '--out': options.outDir = takeValue(arg, i++); break;
+            case '--concurrency': options.concurrency = takeNumber(arg, i++); break;
+            case '--timeout': options.timeoutSeconds = takeNumber(arg, i++); break;
+            case '--budget': options.budgetUsd = takeNumber(arg, i++); break;
+            case '--workflows': options.workflowsDir = takeValue(arg, i++); break;
+            case '--quiet': options.quiet = true; break;
+            case '--help':
+            case '-h':
+                throw new UsageError(USAGE);
+            default:
+                if (arg.startsWith('--') || options.workflowPath) throw new UsageError(`Unexpected argument '${arg}'.`);
+                options.workflowPath = arg;
+        }
+    }
+
+    if (!options.workflowPath) throw new UsageError('No workflow file given.');
+    return options as CliOptions;
+};
+
+const readStdin = async (): Promise<string> => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of process.stdin) chunks.push(Buffer.from(chunk));
+    return Buffer.concat(chunks).toString('utf8');
+};
+
+const readPayload = async (options: CliOptions): Promise<any> => {
+    let text: string;
+    if (options.payloadPath && options.payloadPath !== '-') {
+        text = await readFile(options.payloadPath, 'utf8');
+    } else if (options.payloadPath === '-' || !process.stdin.isTTY) {
+        text = await readStdin();
+    } else {
+        return undefined;
+    }
+
+    // No input at all (e.g. stdin from /dev/null in cron) keeps the workflow's simulation payload
+    if (text.trim() === '') return undefined;
+    try {
+        return JSON.parse(text);
+    } catch {
+        return text;
+    }
+};
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+    'image/png': 'png',
+    'image/jpeg': 'jpg',
+    'image/webp': 'webp',
+    'image/gif': 'gif',
+    'image/svg+xml': 'svg',
+};
+
+const IMAGE_DATA_URL = /^data:(image\/[\w.+-]+);base64,([\s\S]+)$/;
+
+const toFileName = (text: string) => text.replace(/[^\w.-]+/g, '_').replace(/^_+|_+$/g, '') || 'image';
+
+/**
+ * Writes image Data URLs to files, reusing the file when the same image is seen twice.
+ */
+class ImageWriter {
+    private written = new Map<string, string>();
+    private usedNames = new Set<string>();
+
+    constructor(private outDir: string) {}
+
+    async write(dataUrl: string, name: string): Promise<string> {
+        const existing = this.written.get(dataUrl);
+        if (existing) return existing;
+
+        const [, mimeType, base64] = dataUrl.match(IMAGE_DATA_URL)!;
+        const extension = IMAGE_EXTENSIONS[mimeType] || 'bin';
+        let fileName = `${toFileName(name)}.${extension}`;
+        for (let n = 2; this.usedNames.has(fileName); n++) {
+            fileName = `${toFileName(name)}-${n}.${extension}`;
+        }
+        this.usedNames.add(fileName);
+
+        await mkdir(this.outDir, { recursive: true });
+        const filePath = path.join(this.outDir, fileName);
+        await writeFile(filePath, Buffer.from(base64, 'base64'));
+        this.written.set(dataUrl, filePath);
+        return filePath;
+    }
+
+    /**
+     * Returns a copy of a value with every image Data URL replaced by its file path.
+     */
+    async replaceImages(value: any, name: string): Promise<any> {
+        if (typeof value === 'string') {
+            return IMAGE_DATA_URL.test(value) ? this.write(value, name) : value;
+        }
+        if (Array.isArray(value)) {
+            return Promise.all(value.map((item, i) => this.replaceImages(item, `${name}-${i}`)));
+        }
+        if (value && typeof value === 'object') {
+            const entries = await Promise.all(
+                Object.entries(value).map(async ([key, item]) => [key, await this.replaceImages(item, `${name}-${key}`)])
+            );
+            return Object.fromEntries(entries);
+        }
+        return value;
+    }
+}
+
+const main = async (): Promise<number> => {
+    let options: CliOptions;
+    let workflow;
+    try {
+        options = parseArgs(process.argv.slice(2));
+        workflow = parseWorkflowFile(await readFile(options.workflowPath, 'utf8'));
+    } catch (e: any) {
+        console.error(e.message);
+        if (e instanceof UsageError && e.message !== USAGE) console.error(USAGE);
+        return 2;
+    }
+
+    loadApiKeyFromEnv();
+
+    const settings = { ...(workflow.settings || {}) };
+    if (options.concurrency !== undefined) settings.maxConcurrency = options.concurrency;
+    if (options.timeoutSeconds !== undefined) settings.runTimeoutMs = options.timeoutSeconds * 1000;
+    if (options.budgetUsd !== undefined) settings.budgetUsd = options.budgetUsd || undefined;
+
+    const engine = new WorkflowEngine(workflow.nodes, workflow.edges, settings);
+    engine.workflowLibrary = directoryWorkflowLibrary(options.workflowsDir || path.dirname(options.workflowPath));
+    const images = new ImageWriter(options.outDir);
+    const pendingImages: Promise<string>[] = [];
+
+    engine.subscribe(event => {
+        if (event.type === 'log' && !options.quiet) {
+            console.error(formatLogEntry(event));
+        }
+        // Images produced inside loops may never reach a variable, so save every generated one
+        if (event.type === 'node-succeeded' && typeof event.output === 'string' && IMAGE_DATA_URL.test(event.output)) {
+            const node = engine.nodes.find(n => n.id === event.nodeId);
+            pendingImages.push(images.write(event.output, node?.data.label || event.nodeId));
+        }
+    });
+
+    const stop = () => engine.cancel();
+    process.once('SIGINT', stop);
+    process.once('SIGTERM', stop);
+
+    const result = await engine.run({ payload: await readPayload(options) });
+    await Promise.all(pendingImages);
+
+    const variables: Record<string, any> = {};
+    for (const [name, value] of Object.entries(result.variables)) {
+        variables[name] = await images.replaceImages(value, name);
+    }
+    process.stdout.write(JSON.stringify(variables, null, 2) + '\n');
+
+    if (result.outcome !== 'success') {
+        const failed = result.failedNodeIds.map(id => engine.nodes.find(n => n.id === id)?.data.label || id);
+        console.error(`Workflow ${result.outcome}${failed.length > 0 ? `: ${failed.join(', ')}` : ''}`);
+        return 1;
+    }
+    return 0;
+};
+
+main().then(
+    code => process.exit(code),
+    error => {
+        console.error(error);
+        process.exit(1);
+    }
+);
@@ -0,0 +1,398 @@
+/**
+ * Local HTTP server that triggers real runs of exported workflows.
+ *
+ *   node dist-cli/webhookServer.js <workflow.json...> [--port 8787] [--host 127.0.0.1] [--respond final|immediate] [--state <file>] [--workflows <dir>]
+ *
+ * Each workflow is served at /webhook/<path>, where <path> is the Webhook node's
+ * configured path or else the file name. Requests may send:
+ *   - JSON (application/json)
+ *   - multipart/form-data or urlencoded forms; uploaded files become Data URLs,
+ *     the same shape the Webhook node's test form produces
+ *   - plain text, or a raw image/file body (passed on as a Data URL)
+ *   - nothing, in which case the query parameters are the payload
+ *
+ * By default the response waits for the run and returns its output and final
+ * variables. With `--respond immediate` (or `?wait=false` on a request) it returns
+ * a run id straight away; GET /runs/<id> reports the run's status and, once
+ * finished, its result.
+ *
+ * Workflows starting with a Schedule trigger are also run on their cron schedule
+ * for as long as the server is up. With `--state <file>` the last fire time of each
+ * is kept across restarts, so fires missed while the server was down are handled
+ * by the node's missed-run policy.
+ *
+ * Sub-workflow nodes call <name>.json from the `--workflows` directory, or else from
+ * the directory of the workflow file being run.
+ */
+import http from 'node:http';
+import path from 'node:path';
+import { readFile, writeFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+import { WorkflowEngine } from '../services/workflowEngine';
+import { RunOutcome, RunResult, formatLogEntry } from '../services/workflowEvents';
+import { WorkflowFile, parseWorkflowFile } from '../services/workflowFile';
+import { Node, isTriggerType } from '../types';
+import { startSchedule, ScheduleHandle } from '../services/scheduler';
+import { parseCron, getNextFireTime, getLocalTimeZone, isValidTimeZone } from '../services/cronSchedule';
+import { loadApiKeyFromEnv } from './env';
+import { directoryWorkflowLibrary } from './workflowDirectory';
+
+type RespondMode = 'final' | 'immediate';
+
+interface ServerOptions {
+    workflowPaths: string[];
+    port: number;
+    host: string;
+    respond: RespondMode;
+    statePath?: string;
+    workflowsDir?: string;
+}
+
+interface Route {
+    path: string;
+    file: string;
+    workflow: WorkflowFile;
+    schedule?: Node; // The Schedule trigger, when the workflow starts with one
+}
+
+// Last fire time per scheduled route, saved with --state
+type ScheduleState = Record<string, { cron: string; timezone: string; lastFiredAt: number }>;
+
+interface RunRecord {
+    id: string;
+    webhook: string;
+    trigger: 'webhook' | 'schedule';
+    status: 'running' | RunOutcome;
+    startedAt: string;
+    finishedAt?: string;
+    result?: RunResult;
+    errors: { nodeId: string; label: string; message: string }[];
+}
+
+const USAGE = 'Usage: webhookServer <workflow.json...> [--port <n>] [--host <address>] [--respond final|immediate] [--state <file>] [--workflows <dir>]';
+const MAX_BODY_BYTES = 25 * 1024 * 1024;
+const MAX_KEPT_RUNS = 200;
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+    }
+}
+
+const parseArgs = (argv: string[]): ServerOptions => {
+    const options: ServerOptions = { workflowPaths: [], port: 8787, host: '127.0.0.1', respond: 'final' };
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = argv[i + 1];
+        switch (arg) {
+            case '--port':
+                options.port = Number(value);
+                if (!Number.isInteger(options.port) || options.port < 0) throw new Error('--port expects a port number.');
+                i++;
+                break;
+            case '--host':
+                if (!value) throw new Error('Missing value for --host.');
+                options.host = value;
+                i++;
+                break;
+            case '--respond':
+                if (value !== 'final' && value !== 'immediate') throw new Error("--respond expects 'final' or 'immediate'.");
+                options.respond = value;
+                i++;
+                break;
+            case '--state':
+                if (!value) throw new Error('Missing value for --state.');
+                options.statePath = value;
+                i++;
+                break;
+            case '--workflows':
+                if (!value) throw new Error('Missing value for --workflows.');
+                options.workflowsDir = value;
+                i++;
+                break;
+            default:
+                if (arg.startsWith('--')) throw new Error(`Unexpected argument '${arg}'.`);
+                options.workflowPaths.push(arg);
+        }
+    }
+    if (options.workflowPaths.length === 0) throw new Error('No workflow files given.');
+    return options;
+};
+
+const normalizePath = (value: string) => value.replace(/^\/+|\/+$/g, '').replace(/[^\w\-/]/g, '-');
+
+const loadRoutes = async (files: string[]): Promise<Map<string, Route>> => {
+    const routes = new Map<string, Route>();
+    for (const file of files) {
+        const workflow = parseWorkflowFile(await readFile(file, 'utf8'));
+        const trigger = workflow.nodes.find(n => isTriggerType(n.type));
+        const routePath = normalizePath((trigger?.type === 'webhook' && trigger.data.webhookPath) || path.basename(file, path.extname(file)));
+        const existing = routes.get(routePath);
+        if (existing) {
+            throw new Error(`Both ${existing.file} and ${file} use the webhook path '/webhook/${routePath}'.`);
+        }
+        const schedule = trigger?.type === 'schedule' ? trigger : undefined;
+        if (schedule) {
+            try {
+                parseCron(schedule.data.scheduleCron || '');
+            } catch (e: any) {
+                throw new Error(`${file}: invalid cron expression: ${e.message}`);
+            }
+            if (schedule.data.scheduleTimezone && !isValidTimeZone(schedule.data.scheduleTimezone)) {
+                throw new Error(`${file}: unknown time zone '${schedule.data.scheduleTimezone}'.`);
+            }
+        }
+        routes.set(routePath, { path: routePath, file, workflow, schedule });
+    }
+    return routes;
+};
+
+const readBody = (req: http.IncomingMessage): Promise<Buffer> => {
+    return new Promise((resolve, reject) => {
+        const chunks: Buffer[] = [];
+        let size = 0;
+        req.on('data', (chunk: Buffer) => {
+            size += chunk.length;
+            if (size > MAX_BODY_BYTES) {
+                reject(new HttpError(413, `Request body exceeds ${MAX_BODY_BYTES / 1024 / 1024}MB.`));
+                req.destroy();
+                return;
+            }
+            chunks.push(chunk);
+        });
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+};
+
+const toDataUrl = (mimeType: string, data: Buffer) => {
+    return `data:${mimeType || 'application/octet-stream'};base64,${data.toString('base64')}`;
+};
+
+/**
+ * Converts a form into a payload object. Files become Data URLs and repeated
+ * keys become arrays.
+ */
+const formToPayload = async (form: FormData): Promise<Record<string, any>> => {
+    const payload: Record<string, any> = {};
+    for (const [key, entry] of form.entries()) {
+        const value = typeof entry === 'string'
+            ? entry
+            : toDataUrl(entry.type, Buffer.from(await entry.arrayBuffer()));
+        if (!payload.hasOwnProperty(key)) {
+            payload[key] = value;
+        } else {
+            payload[key] = Array.isArray(payload[key]) ? [...payload[key], value] : [payload[key], value];
+        }
+    }
+    return payload;
+};
+
+const readPayload = async (req: http.IncomingMessage, url: URL): Promise<any> => {
+    const body = await readBody(req);
+    const contentType = (req.headers['content-type'] || '').toLowerCase();
+
+    if (body.length === 0) {
+        const query = Object.fromEntries(url.searchParams);
+        delete query.wait;
+        return query;
+    }
+    if (contentType.includes('json')) {
+        try {
+            return JSON.parse(body.toString('utf8'));
+        } catch {
+            throw new HttpError(400, 'Request body is not valid JSON.');
+        }
+    }
+    if (contentType.startsWith('multipart/form-data') || contentType.startsWith('application/x-www-form-urlencoded')) {
+        try {
+            const form = await new Response(body, { headers: { 'content-type': req.headers['content-type']! } }).formData();
+            return await formToPayload(form);
+        } catch {
+            throw new HttpError(400, 'Request body is not a valid form.');
+        }
+    }
+    if (!contentType || contentType.startsWith('text/')) {
+        return body.toString('utf8');
+    }
+    return toDataUrl(contentType.split(';')[0].trim(), body);
+};
+
+const sendJson = (res: http.ServerResponse, status: number, data: any) => {
+    res.writeHead(status, { 'content-type': 'application/json' });
+    res.end(JSON.stringify(data, null, 2));
+};
+
+const describeRun = (run: RunRecord) => ({
+    runId: run.id,
+    webhook: `/webhook/${run.webhook}`,
+    trigger: run.trigger,
+    status: run.status,
+    startedAt: run.startedAt,
+    finishedAt: run.finishedAt,
+    // Variables set on branches that never joined are merged in by the engine
+    ...(run.result ? { output: run.result.output, variables: run.result.variables, stats: run.result.stats } : {}),
+    errors: run.errors
+});
+
+const readScheduleState = async (file: string): Promise<ScheduleState> => {
+    try {
+        return JSON.parse(await readFile(file, 'utf8'));
+    } catch (e: any) {
+        if (e.code === 'ENOENT') return {};
+        throw new Error(`Could not read schedule state from ${file}: ${e.message}`);
+    }
+};
+
+const main = async () => {
+    let options: ServerOptions;
+    let routes: Map<string, Route>;
+    let scheduleState: ScheduleState;
+    try {
+        options = parseArgs(process.argv.slice(2));
+        routes = await loadRoutes(options.workflowPaths);
+        scheduleState = options.statePath ? await readScheduleState(options.statePath) : {};
+    } catch (e: any) {
+        console.error(e.message);
+        console.error(USAGE);
+        process.exit(2);
+    }
+
+    loadApiKeyFromEnv();
+    const runs = new Map<string, RunRecord>();
+
+    const startRun = (route: Route, payload: any, trigger: RunRecord['trigger'] = 'webhook'): { run: RunRecord; engine: WorkflowEngine; done: Promise<void> } => {
+        const run: RunRecord = { id: randomUUID(), webhook: route.path, trigger, status: 'running', startedAt: new Date().toISOString(), errors: [] };
+        runs.set(run.id, run);
+        // Forget the oldest runs so a long-running server doesn't grow forever
+        while (runs.size > MAX_KEPT_RUNS) runs.delete(runs.keys().next().value!);
+
+        const engine = new WorkflowEngine(route.workflow.nodes, route.workflow.edges, route.workflow.settings);
+        engine.workflowLibrary = directoryWorkflowLibrary(options.workflowsDir || path.dirname(route.file));
+        engine.subscribe(event => {
+            if (event.type === 'log') console.log(`[${run.id.slice(0, 8)}] ${formatLogEntry(event)}`);
+            if (event.type === 'node-failed' && !event.handled) {
+                const node = engine.nodes.find(n => n.id === event.nodeId);
+                run.errors.push({ nodeId: event.nodeId, label: node?.data.label || event.nodeId, message: event.error });
+            }
+        });
+
+        const done = engine.run({ payload }).then(
+            result => {
+                run.result = result;
+                run.status = result.outcome;
+            },
+            error => {
+                run.status = 'failed';
+                run.errors.push({ nodeId: '', label: 'engine', message: error.message || String(error) });
+            }
+        ).finally(() => {
+            run.finishedAt = new Date().toISOString();
+        });
+
+        return { run, engine, done };
+    };
+
+    const handle = async (req: http.IncomingMessage, res: http.ServerResponse) => {
+        const url = new URL(req.url || '/', `http://${req.headers.host || 'localhost'}`);
+        const pathname = url.pathname.replace(/\/+$/, '');
+
+        if (req.method === 'GET' && (pathname === '' || pathname === '/webhook')) {
+            return sendJson(res, 200, {
+                webhooks: Array.from(routes.values()).map(r => ({ path: `/webhook/${r.path}`, file: r.file })),
+                schedules: Array.from(routes.values()).filter(r => r.schedule).map(r => {
+                    const timezone = r.schedule!.data.scheduleTimezone || getLocalTimeZone();
+                    const next = getNextFireTime(parseCron(r.schedule!.data.scheduleCron!), timezone, Date.now());
+                    return { path: `/webhook/${r.path}`, cron: r.schedule!.data.scheduleCron, timezone, nextRun: next === null ? null : new Date(next).toISOString() };
+                })
+            });
+        }
+
+        const runMatch = pathname.match(/^\/runs\/([\w-]+)$/);
+        if (runMatch && req.method === 'GET') {
+            const run = runs.get(runMatch[1]);
+            if (!run) throw new HttpError(404, `Unknown run '${runMatch[1]}'.`);
+            return sendJson(res, 200, describeRun(run));
+        }
+
+        const webhookMatch = pathname.match(/^\/webhook\/(.+)$/);
+        const route = webhookMatch ? routes.get(normalizePath(webhookMatch[1])) : undefined;
+        if (!route) throw new HttpError(404, `No webhook at '${url.pathname}'.`);
+        if (req.method !== 'POST' && req.method !== 'PUT' && req.method !== 'GET') {
+            throw new HttpError(405, `Method ${req.method} not allowed.`);
+        }
+
+        const payload = await readPayload(req, url);
+        const wait = url.searchParams.has('wait') ? url.searchParams.get('wait') !== 'false' : options.respond === 'final';
+        const { run, engine, done } = startRun(route, payload);
+
+        if (!wait) {
+            return sendJson(res, 202, { runId: run.id, status: run.status, statusUrl: `/runs/${run.id}` });
+        }
+
+        // Stop the run if the caller gives up waiting for it
+        res.on('close', () => {
+            if (!run.finishedAt) engine.cancel();
+        });
+        await done;
+        sendJson(res, run.status === 'success' ? 200 : 500, describeRun(run));
+    };
+
+    const server = http.createServer((req, res) => {
+        handle(req, res).catch(error => {
+            const status = error instanceof HttpError ? error.status : 500;
+            if (!(error instanceof HttpError)) console.error(error);
+            if (!res.headersSent) sendJson(res, status, { error: error.message || String(error) });
+        });
+    });
+
+    server.listen(options.port, options.host, () => {
+        const address = server.address();
+        const port = typeof address === 'object' && address ? address.port : options.port;
+        console.log(`Webhook server listening on http://${options.host}:${port}`);
+        routes.forEach(r => console.log(`  POST /webhook/${r.path}  →  ${r.file}`));
+    });
+
+    // Scheduled workflows; a fire waits for the previous run of the same workflow to finish
+    let stateWrite = Promise.resolve();
+    const schedules: ScheduleHandle[] = [];
+    routes.forEach(route => {
+        if (!route.schedule) return;
+        const cron = route.schedule.data.scheduleCron!;
+        const timezone = route.schedule.data.scheduleTimezone || getLocalTimeZone();
+        const saved = scheduleState[route.path];
+        console.log(`  CRON '${cron}' (${timezone})  →  ${route.file}`);
+        schedules.push(startSchedule({
+            cron,
+            timezone,
+            missedRuns: route.schedule.data.scheduleMissedRuns,
+            // A schedule edited since the state was saved has nothing to catch up on
+            lastFiredAt: saved && saved.cron === cron && saved.timezone === timezone ? saved.lastFiredAt : undefined,
+            onFire: async (scheduled) => {
+                console.log(`Schedule '${cron}' fired for ${route.file} (${scheduled.scheduledTime}${scheduled.missed ? ', missed' : ''})`);
+                await startRun(route, scheduled, 'schedule').done;
+            },
+            onSkip: (times) => {
+                console.log(`Skipped ${times.length} missed run(s) of ${route.file}, the latest for ${new Date(times[times.length - 1]).toISOString()}`);
+            },
+            onAdvance: (lastFiredAt) => {
+                if (!options.statePath) return;
+                scheduleState[route.path] = { cron, timezone, lastFiredAt };
+                const json = JSON.stringify(scheduleState, null, 2);
+                stateWrite = stateWrite
+                    .then(() => writeFile(options.statePath!, json))
+                    .catch(e => console.error(`Could not save schedule state: ${e.message}`));
+            }
+        }));
+    });
+
+    const shutdown = () => {
+        schedules.forEach(s => s.stop());
+        server.close(() => process.exit(0));
+        server.closeAllConnections();
+    };
+    process.once('SIGINT', shutdown);
+    process.once('SIGTERM', shutdown);
+};
+
+main();
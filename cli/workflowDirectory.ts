@@ -0,0 +1,23 @@
+import path from 'node:path';
+import { readFile } from 'node:fs/promises';
+import { WorkflowLibrary } from '../services/workflowLibrary';
+import { parseWorkflowFile } from '../services/workflowFile';
+
+/**
+ * A library of exported workflow files for the CLIs: sub-workflow 'name' is read
+ * from <dir>/name.json. Files are read on every call, so edits apply to the next run.
+ */
+export const directoryWorkflowLibrary = (dir: string): WorkflowLibrary => ({
+    async get(name) {
+        // Names are file names in the directory, never paths out of it
+        if (!name || name !== path.basename(name) || name.startsWith('.')) return undefined;
+        let text: string;
+        try {
+            text = await readFile(path.join(dir, `${name}.json`), 'utf8');
+        } catch (e: any) {
+            if (e.code === 'ENOENT') return undefined;
+            throw e;
+        }
+        return parseWorkflowFile(text);
+    }
+});
@@ -0,0 +1,193 @@
+import React, { useState } from 'react';
+import * as Icons from 'lucide-react';
+import { NodeDebugSnapshot } from '../services/workflowEvents';
+
+export interface PausedNodeView {
+  nodeId: string;
+  label: string;
+  snapshot: NodeDebugSnapshot;
+}
+
+interface DebugPanelProps {
+  paused: PausedNodeView[];
+  onStep: () => void;
+  onResume: () => void;
+  onStop: () => void;
+  onSetVariable: (nodeId: string, name: string, value: any) => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const isImage = (value: any) => typeof value === 'string' && value.startsWith('data:image');
+
+const formatValue = (value: any): string => {
+  if (typeof value === 'string') return value;
+  try {
+    return JSON.stringify(value, (key, val) => isImage(val) ? '[Image Data]' : val, 2) ?? String(value);
+  } catch {
+    return String(value);
+  }
+};
+
+// New values are JSON when they parse as JSON, plain text otherwise
+const parseValue = (text: string): any => {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+};
+
+const ValuePreview: React.FC<{ value: any }> = ({ value }) => {
+  if (isImage(value)) {
+    return <img src={value} alt="" className="max-h-16 rounded border border-slate-200" />;
+  }
+  return <pre className="whitespace-pre-wrap break-all font-mono text-[10px] text-slate-600 max-h-24 overflow-y-auto">{formatValue(value)}</pre>;
+};
+
+const VariableRow: React.FC<{ name: string; value: any; onSave: (value: any) => void }> = ({ name, value, onSave }) => {
+  const [draft, setDraft] = useState<string | null>(null);
+
+  return (
+    <div className="p-1.5 rounded bg-slate-50 border border-slate-100">
+      <div className="flex items-center justify-between mb-0.5">
+        <span className="font-mono font-semibold text-slate-700">{name}</span>
+        {draft === null && !isImage(value) && (
+          <button onClick={() => setDraft(formatValue(value))} className="text-slate-400 hover:text-indigo-600" title="Edit value">
+            <Icons.Pencil size={10} />
+          </button>
+        )}
+      </div>
+      {draft === null ? (
+        <ValuePreview value={value} />
+      ) : (
+        <div className="space-y-1">
+          <textarea
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            rows={Math.min(6, draft.split('\n').length + 1)}
+            className="w-full p-1 bg-white border border-slate-200 rounded font-mono text-[10px] focus:outline-none focus:ring-1 focus:ring-indigo-500"
+            autoFocus
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setDraft(null)} className="text-slate-400 hover:text-slate-700">Cancel</button>
+            {/* Strings stay strings, even when the text would parse as JSON (e.g. "42") */}
+            <button onClick={() => { onSave(typeof value === 'string' ? draft : parseValue(draft)); setDraft(null); }} className="text-indigo-600 hover:text-indigo-800 font-medium">Set</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+const RESOLVED_LABELS: Record<string, string> = {
+  prompt: 'Prompt',
+  apiMethod: 'Method',
+  apiUrl: 'URL',
+  apiHeaders: 'Headers',
+  apiQueryParams: 'Query params',
+  apiBody: 'Body',
+  inputs: 'Inputs',
+  inputImage: 'Input image',
+  condition: 'Condition',
+  loopArray: 'Loop over',
+};
+
+const PausedNodeCard: React.FC<{ view: PausedNodeView } & Pick<DebugPanelProps, 'onSetVariable' | 'onSelectNode'>> = ({ view, onSetVariable, onSelectNode }) => {
+  const [newName, setNewName] = useState('');
+  const [newValue, setNewValue] = useState('');
+  const { snapshot } = view;
+  const resolved = Object.entries(snapshot.resolved).filter(([, value]) => value !== undefined && value !== '');
+
+  const addVariable = () => {
+    if (!newName.trim()) return;
+    onSetVariable(view.nodeId, newName.trim(), parseValue(newValue));
+    setNewName('');
+    setNewValue('');
+  };
+
+  return (
+    <div className="space-y-2">
+      <button onClick={() => onSelectNode(view.nodeId)} className="font-bold text-slate-800 flex items-center gap-1 hover:text-indigo-600">
+        <Icons.CirclePause size={12} className="text-amber-600" /> {view.label}
+      </button>
+
+      {snapshot.resolveError && (
+        <div className="p-1.5 rounded bg-red-50 border border-red-100 text-red-700">{snapshot.resolveError}</div>
+      )}
+
+      {resolved.length > 0 && (
+        <div className="space-y-1">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Resolved</div>
+          {resolved.map(([key, value]) => (
+            <div key={key}>
+              <span className="text-[10px] text-slate-500">{RESOLVED_LABELS[key] || key}</span>
+              {key === 'apiHeaders' || key === 'apiQueryParams'
+                ? <ValuePreview value={Object.fromEntries((value as { key: string; value: string }[]).filter(p => p.key).map(p => [p.key, p.value]))} />
+                : key === 'inputs'
+                  ? <div className="flex flex-wrap gap-1">{(value as { id: string; value: any }[]).map(input => <ValuePreview key={input.id} value={input.value} />)}</div>
+                  : <ValuePreview value={value} />}
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="text-[10px] font-bold text-slate-400 uppercase">Input</div>
+        <ValuePreview value={snapshot.input} />
+      </div>
+
+      <div className="space-y-1">
+        <div className="text-[10px] font-bold text-slate-400 uppercase">Variables <span className="normal-case font-normal">({snapshot.scopeLabel} scope)</span></div>
+        {Object.entries(snapshot.variables).map(([name, value]) => (
+          <VariableRow key={name} name={name} value={value} onSave={(v) => onSetVariable(view.nodeId, name, v)} />
+        ))}
+        <div className="flex gap-1">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            placeholder="new_variable"
+            className="w-28 px-1 py-0.5 bg-white border border-slate-200 rounded font-mono text-[10px]"
+          />
+          <input
+            value={newValue}
+            onChange={(e) => setNewValue(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && addVariable()}
+            placeholder="value (JSON or text)"
+            className="flex-1 px-1 py-0.5 bg-white border border-slate-200 rounded font-mono text-[10px]"
+          />
+          <button onClick={addVariable} className="text-indigo-600 hover:text-indigo-800" title="Set variable">
+            <Icons.Plus size={12} />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export const DebugPanel: React.FC<DebugPanelProps> = ({ paused, onStep, onResume, onStop, onSetVariable, onSelectNode }) => {
+  return (
+    <div className="absolute bottom-4 right-4 w-96 bg-white text-xs rounded-xl shadow-xl z-30 border border-amber-300 flex flex-col max-h-[60%]">
+      <div className="flex justify-between items-center p-3 border-b border-amber-100 bg-amber-50 rounded-t-xl">
+        <span className="font-bold text-amber-800 flex items-center gap-1">
+          <Icons.Bug size={12} /> Paused
+        </span>
+        <div className="flex items-center gap-1">
+          <button onClick={onStep} className="flex items-center gap-1 px-2 py-1 rounded text-slate-700 hover:bg-white" title="Run the paused node(s) and pause before the next one">
+            <Icons.StepForward size={12} /> Step
+          </button>
+          <button onClick={onResume} className="flex items-center gap-1 px-2 py-1 rounded text-slate-700 hover:bg-white" title="Run until the next breakpoint">
+            <Icons.Play size={12} /> Continue
+          </button>
+          <button onClick={onStop} className="flex items-center gap-1 px-2 py-1 rounded text-red-600 hover:bg-white" title="Stop the run">
+            <Icons.Square size={12} />
+          </button>
+        </div>
+      </div>
+      <div className="overflow-y-auto p-3 space-y-4 divide-y divide-slate-100">
+        {paused.map(view => (
+          <PausedNodeCard key={view.nodeId} view={view} onSetVariable={onSetVariable} onSelectNode={onSelectNode} />
+        ))}
+      </div>
+    </div>
+  );
+};
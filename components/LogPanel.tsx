@@ -0,0 +1,186 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import * as Icons from 'lucide-react';
+import { Node } from '../types';
+import { LogEntry, LogLevel, LOG_LEVELS, toJsonLines } from '../services/workflowEvents';
+
+interface LogPanelProps {
+  entries: LogEntry[];
+  nodes: Node[];
+  selectedNodeId: string | null;
+  onSelectNode: (nodeId: string) => void;
+  onClear: () => void;
+}
+
+const LEVEL_STYLES: Record<LogLevel, string> = {
+  debug: 'text-slate-500 border-slate-600',
+  info: 'text-sky-300 border-sky-700',
+  warn: 'text-amber-300 border-amber-700',
+  error: 'text-red-300 border-red-700',
+};
+
+// Large Data URLs would swamp the panel; they are still exported in full
+const formatData = (data: any): string => {
+  try {
+    return JSON.stringify(data, (key, val) => typeof val === 'string' && val.startsWith('data:') && val.length > 200 ? '[Data URL]' : val, 2);
+  } catch {
+    return String(data);
+  }
+};
+
+const LogRow: React.FC<{ entry: LogEntry; nodeLabel?: string; selected: boolean; onSelectNode: (nodeId: string) => void }> = ({ entry, nodeLabel, selected, onSelectNode }) => {
+  const [expanded, setExpanded] = useState(false);
+  const hasData = entry.data !== undefined;
+
+  return (
+    <div className={`px-2 py-0.5 rounded ${selected ? 'bg-slate-700/60' : 'hover:bg-slate-800'}`}>
+      <div className="flex items-start gap-2">
+        <span className="text-slate-500 shrink-0">{new Date(entry.timestamp).toLocaleTimeString()}</span>
+        <span className={`shrink-0 w-11 text-center uppercase text-[9px] border rounded ${LEVEL_STYLES[entry.level]}`}>{entry.level}</span>
+        {entry.nodeId && (
+          <button onClick={() => onSelectNode(entry.nodeId!)} className="shrink-0 max-w-[10rem] truncate text-indigo-300 hover:text-indigo-100 hover:underline" title="Select node">
+            {nodeLabel || entry.nodeId}
+          </button>
+        )}
+        {entry.subWorkflow && (
+          <span className="shrink-0 max-w-[12rem] truncate text-violet-300" title={`Logged by sub-workflow run ${entry.subWorkflow.runId}${entry.subWorkflow.nodeId ? `, node ${entry.subWorkflow.nodeId}` : ''}`}>
+            {entry.subWorkflow.path.join(' › ')}
+          </span>
+        )}
+        <span className="flex-1 text-slate-200 break-words">{entry.message}</span>
+        {hasData && (
+          <button onClick={() => setExpanded(!expanded)} className="shrink-0 text-slate-500 hover:text-slate-200" title="Details">
+            {expanded ? <Icons.ChevronDown size={12} /> : <Icons.ChevronRight size={12} />}
+          </button>
+        )}
+      </div>
+      {expanded && hasData && (
+        <pre className="ml-[7.5rem] mt-1 p-2 bg-slate-950/60 rounded text-[10px] text-slate-300 whitespace-pre-wrap break-all max-h-40 overflow-y-auto">{formatData(entry.data)}</pre>
+      )}
+    </div>
+  );
+};
+
+export const LogPanel: React.FC<LogPanelProps> = ({ entries, nodes, selectedNodeId, onSelectNode, onClear }) => {
+  const [collapsed, setCollapsed] = useState(false);
+  const [levels, setLevels] = useState<LogLevel[]>(['info', 'warn', 'error']);
+  const [nodeFilter, setNodeFilter] = useState('');
+  const [search, setSearch] = useState('');
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const stickToBottom = useRef(true);
+
+  const labels = useMemo(() => new Map(nodes.map(n => [n.id, n.data.label])), [nodes]);
+  const loggedNodeIds = useMemo(() => Array.from(new Set(entries.map(e => e.nodeId).filter((id): id is string => !!id))), [entries]);
+
+  const visible = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    // Keep each entry's position in the full log as a stable row key
+    return entries
+      .map((entry, index) => ({ entry, index }))
+      .filter(({ entry }) =>
+        levels.includes(entry.level) &&
+        (!nodeFilter || entry.nodeId === nodeFilter) &&
+        (!query || entry.message.toLowerCase().includes(query) || !!(entry.nodeId && labels.get(entry.nodeId)?.toLowerCase().includes(query)) ||
+          !!entry.subWorkflow?.path.some(name => name.toLowerCase().includes(query)))
+      );
+  }, [entries, levels, nodeFilter, search, labels]);
+
+  // Follow new entries unless the user scrolled up to read older ones
+  useEffect(() => {
+    const el = scrollRef.current;
+    if (el && stickToBottom.current) el.scrollTop = el.scrollHeight;
+  }, [visible, collapsed]);
+
+  const handleScroll = () => {
+    const el = scrollRef.current;
+    if (el) stickToBottom.current = el.scrollHeight - el.scrollTop - el.clientHeight < 24;
+  };
+
+  const toggleLevel = (level: LogLevel) => {
+    setLevels(prev => prev.includes(level) ? prev.filter(l => l !== level) : [...prev, level]);
+  };
+
+  const handleExport = () => {
+    const blob = new Blob([toJsonLines(entries)], { type: 'application/x-ndjson' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `flowgen-log-${Date.now()}.jsonl`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    URL.revokeObjectURL(url);
+  };
+
+  const errorCount = entries.filter(e => e.level === 'error').length;
+  const warnCount = entries.filter(e => e.level === 'warn').length;
+
+  return (
+    <div className={`bg-slate-900 text-xs font-mono border-t border-slate-700 flex flex-col ${collapsed ? '' : 'h-64'}`}>
+      <div className="flex items-center gap-3 px-3 py-1.5 border-b border-slate-800 text-slate-300">
+        <button onClick={() => setCollapsed(!collapsed)} className="flex items-center gap-1 font-bold text-slate-100 hover:text-white">
+          {collapsed ? <Icons.ChevronUp size={12} /> : <Icons.ChevronDown size={12} />}
+          Execution Logs
+          <span className="font-normal text-slate-500">({entries.length})</span>
+        </button>
+        {errorCount > 0 && <span className="text-red-400">{errorCount} error{errorCount === 1 ? '' : 's'}</span>}
+        {warnCount > 0 && <span className="text-amber-400">{warnCount} warning{warnCount === 1 ? '' : 's'}</span>}
+
+        {!collapsed && (
+          <>
+            <div className="flex items-center gap-1 ml-auto">
+              {LOG_LEVELS.map(level => (
+                <button
+                  key={level}
+                  onClick={() => toggleLevel(level)}
+                  className={`px-1.5 py-0.5 rounded border text-[10px] uppercase ${levels.includes(level) ? LEVEL_STYLES[level] : 'text-slate-600 border-slate-800'}`}
+                >
+                  {level}
+                </button>
+              ))}
+            </div>
+            <select
+              value={nodeFilter}
+              onChange={(e) => setNodeFilter(e.target.value)}
+              className="bg-slate-800 border border-slate-700 rounded px-1 py-0.5 text-slate-200 max-w-[10rem]"
+            >
+              <option value="">All nodes</option>
+              {loggedNodeIds.map(id => <option key={id} value={id}>{labels.get(id) || id}</option>)}
+            </select>
+            <div className="relative">
+              <Icons.Search size={10} className="absolute left-1.5 top-1.5 text-slate-500" />
+              <input
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                placeholder="Search"
+                className="w-36 bg-slate-800 border border-slate-700 rounded pl-5 pr-1 py-0.5 text-slate-200 placeholder-slate-500"
+              />
+            </div>
+            <button onClick={handleExport} disabled={entries.length === 0} className="text-slate-400 hover:text-white disabled:opacity-40" title="Export as JSON Lines">
+              <Icons.Download size={12} />
+            </button>
+            <button onClick={onClear} className="text-slate-400 hover:text-white" title="Clear log">
+              <Icons.Trash2 size={12} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {!collapsed && (
+        <div ref={scrollRef} onScroll={handleScroll} className="flex-1 overflow-y-auto py-1">
+          {visible.length === 0 && (
+            <p className="text-slate-500 text-center py-6">{entries.length === 0 ? 'Nothing logged yet.' : 'No entries match the filters.'}</p>
+          )}
+          {visible.map(({ entry, index }) => (
+            <LogRow
+              key={index}
+              entry={entry}
+              nodeLabel={entry.nodeId ? labels.get(entry.nodeId) : undefined}
+              selected={!!entry.nodeId && entry.nodeId === selectedNodeId}
+              onSelectNode={onSelectNode}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
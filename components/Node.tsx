@@ -1,28 +1,99 @@
-import React, { useState } from 'react';
-import { Node as NodeType, NODE_COLORS, NODE_ICONS, WebhookFormField, NodeInput } from '../types';
+import React, { useState, useMemo } from 'react';
+import { Node as NodeType, NODE_COLORS, NODE_ICONS, WebhookFormField, NodeInput, KeyValuePair, ValidationIssue, RetryPolicy, ErrorCategory, HTTP_METHODS, DEFAULT_NODE_TIMEOUTS, getSourceHandles, canPinOutput, isOutputPinned, AI_MODELS, DEFAULT_AI_MODELS, AiNodeType, MissedRunPolicy, isTriggerType } from '../types';
+import { DEFAULT_RETRY_POLICY } from '../services/retryPolicy';
+import { formatDuration } from '../services/runMetrics';
+import { formatCost } from '../services/costEstimator';
+import { parseCron, getUpcomingFireTimes, getLocalTimeZone, isValidTimeZone, listTimeZones, formatFireTime } from '../services/cronSchedule';
+import { SavedWorkflowSummary } from '../services/workflowLibrary';
 import * as Icons from 'lucide-react';
 
+// Handle geometry shared with the canvas so edges line up with the rendered handles
+export const NODE_WIDTH = 384; // w-96
+export const HANDLE_TOP = 28; // Header center
+const HANDLE_SPACING = 28;
+
+/**
+ * Vertical offset of a source handle relative to the node's top edge.
+ * Nodes with several named outputs stack them below the header center.
+ */
+export const getSourceHandleY = (node: NodeType, handle?: string): number => {
+  const handles = getSourceHandles(node);
+  const index = handle ? handles.indexOf(handle) : 0;
+  return HANDLE_TOP + Math.max(index, 0) * HANDLE_SPACING;
+};
+
+const RETRY_CATEGORIES: { value: ErrorCategory; label: string }[] = [
+  { value: 'rate-limit', label: 'Rate limit (429)' },
+  { value: 'server', label: 'Server (5xx)' },
+  { value: 'network', label: 'Network' },
+  { value: 'empty-response', label: 'Empty response' },
+  { value: 'timeout', label: 'Timeout' },
+  { value: 'client', label: 'Client (4xx)' },
+  { value: 'other', label: 'Other' },
+];
+
+const HANDLE_COLORS: Record<string, string> = {
+  true: 'bg-green-500',
+  false: 'bg-red-400',
+  body: 'bg-yellow-500',
+  done: 'bg-slate-500',
+  error: 'bg-rose-600',
+};
+
 interface NodeProps {
   node: NodeType;
   selected: boolean;
   onMouseDown: (e: React.MouseEvent, id: string) => void;
-  onHandleMouseDown: (e: React.MouseEvent, id: string, type: 'source' | 'target') => void;
+  onHandleMouseDown: (e: React.MouseEvent, id: string, type: 'source' | 'target', handle?: string) => void;
   onChange: (id: string, data: any) => void;
   onDelete: (id: string) => void;
+  issues?: ValidationIssue[]; // Validation problems reported for this node
+  onRun?: (id: string, mode: 'from' | 'only') => void; // Partial re-runs, unavailable while a run is in progress
+  savedWorkflows?: SavedWorkflowSummary[]; // Workflows a sub-workflow node can call
 }
 
-export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandleMouseDown, onChange, onDelete }) => {
+type KeyValueListKey = 'apiHeaders' | 'apiQueryParams' | 'subWorkflowInputs';
+
+export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandleMouseDown, onChange, onDelete, issues = [], onRun, savedWorkflows = [] }) => {
   const [showAdvanced, setShowAdvanced] = useState(false);
   const [showSchema, setShowSchema] = useState(false);
+  const [showRetry, setShowRetry] = useState(false);
   const [isHovered, setIsHovered] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [mockDraft, setMockDraft] = useState<string | null>(null); // Text of the pinned output being edited
 
   const IconComponent = (Icons as any)[NODE_ICONS[node.type] || 'Box'];
   const baseColor = NODE_COLORS[node.type];
   
   const isRunning = node.data.status === 'running';
+  const isPaused = node.data.status === 'paused';
   const isSuccess = node.data.status === 'success';
   const isError = node.data.status === 'error';
+  const isCancelled = node.data.status === 'cancelled';
+  const isPinned = isOutputPinned(node);
+  const issueSeverity = issues.some(i => i.severity === 'error') ? 'error' : issues.length > 0 ? 'warning' : null;
+
+  // Next fire times of a schedule trigger, refreshed when edited or a minute has passed
+  const scheduleZone = node.data.scheduleTimezone || getLocalTimeZone();
+  const currentMinute = Math.floor(Date.now() / 60000);
+  const upcomingFires = useMemo(() => {
+    if (node.type !== 'schedule' || !isValidTimeZone(scheduleZone)) return null;
+    try {
+      return { times: getUpcomingFireTimes(parseCron(node.data.scheduleCron || ''), scheduleZone, Date.now(), 5) };
+    } catch (e: any) {
+      return { times: [], error: e.message as string };
+    }
+  }, [node.type, node.data.scheduleCron, scheduleZone, currentMinute]);
+
+  const calledWorkflow = node.type === 'sub-workflow' ? savedWorkflows.find(w => w.name === node.data.subWorkflowName) : undefined;
+
+  // Timing and token usage from the last run
+  const metrics = node.data.metrics;
+  const metricsTitle = metrics && [
+    metrics.executions > 1 ? `${formatDuration(metrics.durationMs)} over ${metrics.executions} executions` : `Took ${formatDuration(metrics.durationMs)}`,
+    metrics.usage && `Tokens: ${metrics.usage.promptTokens.toLocaleString()} prompt + ${metrics.usage.candidatesTokens.toLocaleString()} output = ${metrics.usage.totalTokens.toLocaleString()}`,
+    metrics.costUsd !== undefined && `Cost: ${formatCost(metrics.costUsd)}`
+  ].filter(Boolean).join('\n');
 
   // Helper to update node data
   const handleChange = (key: string, value: any) => {
@@ -129,6 +200,40 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
   };
 
 
+  // --- API Header / Query Param / Sub-workflow Input Handlers ---
+  const addKeyValue = (listKey: KeyValueListKey) => {
+      const list = node.data[listKey] || [];
+      onChange(node.id, {
+          ...node.data,
+          [listKey]: [...list, { id: Date.now().toString(), key: '', value: '' }]
+      });
+  };
+
+  const updateKeyValue = (listKey: KeyValueListKey, index: number, key: keyof KeyValuePair, value: string) => {
+      const list = [...(node.data[listKey] || [])];
+      list[index] = { ...list[index], [key]: value };
+      onChange(node.id, { ...node.data, [listKey]: list });
+  };
+
+  const removeKeyValue = (listKey: KeyValueListKey, index: number) => {
+      const list = [...(node.data[listKey] || [])];
+      list.splice(index, 1);
+      onChange(node.id, { ...node.data, [listKey]: list });
+  };
+
+  // --- Retry Policy Handlers ---
+  const updateRetryPolicy = (patch: Partial<RetryPolicy>) => {
+      const policy = { ...(node.data.retryPolicy || DEFAULT_RETRY_POLICY), ...patch };
+      onChange(node.id, { ...node.data, retryPolicy: policy });
+  };
+
+  const toggleRetryCategory = (category: ErrorCategory) => {
+      const current = node.data.retryPolicy?.retryOn || DEFAULT_RETRY_POLICY.retryOn;
+      updateRetryPolicy({
+          retryOn: current.includes(category) ? current.filter(c => c !== category) : [...current, category]
+      });
+  };
+
   // Prevent canvas dragging when interacting with forms
   const stopPropagation = (e: React.MouseEvent | React.TouchEvent | React.PointerEvent) => {
       e.stopPropagation();
@@ -211,6 +316,24 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
   };
 
 
+  // Mock values are JSON when they parse as JSON, plain text otherwise
+  const saveMock = () => {
+    if (mockDraft === null) return;
+    let value: any = mockDraft;
+    try {
+        value = JSON.parse(mockDraft);
+    } catch {
+        // Keep as text
+    }
+    handleChange('pinnedOutput', value);
+    setMockDraft(null);
+  };
+
+  const editMock = () => {
+    const value = node.data.pinnedOutput;
+    setMockDraft(value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value, null, 2));
+  };
+
   // Helper to Render Output
   const renderOutput = (value: any) => {
     if (value === null || value === undefined) return <span className="text-slate-400 italic">Empty</span>;
@@ -257,8 +380,13 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
       className={`absolute w-96 rounded-xl shadow-sm transition-all duration-200 group
         ${selected ? 'ring-2 ring-indigo-500 shadow-xl z-20' : 'hover:shadow-md z-10'}
         ${isRunning ? 'ring-2 ring-yellow-400' : ''}
+        ${isPaused ? 'ring-4 ring-amber-500' : ''}
         ${isSuccess ? 'ring-2 ring-green-500' : ''}
         ${isError ? 'ring-2 ring-red-500' : ''}
+        ${isCancelled ? 'ring-2 ring-slate-400 opacity-75' : ''}
+        ${issueSeverity === 'error' ? 'ring-2 ring-offset-2 ring-red-400' : ''}
+        ${issueSeverity === 'warning' ? 'ring-2 ring-offset-2 ring-amber-400' : ''}
+        ${isPinned ? 'outline-dashed outline-2 outline-offset-4 outline-violet-400' : ''}
         bg-white border border-slate-200 flex flex-col
       `}
       style={{
@@ -270,7 +398,7 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
       onMouseDown={(e) => onMouseDown(e, node.id)}
     >
       {/* Input Handle */}
-      {node.type !== 'webhook' && (
+      {!isTriggerType(node.type) && (
         <div
           className="absolute -left-3 top-7 w-3 h-3 bg-slate-400 rounded-full border-2 border-white hover:bg-indigo-500 hover:scale-125 transition-all cursor-crosshair z-30"
           onMouseDown={(e) => onHandleMouseDown(e, node.id, 'target')}
@@ -295,10 +423,62 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
           />
         </div>
         <div className="flex items-center gap-2">
+            {issueSeverity && (
+                <span title={issues.map(i => `${i.severity === 'error' ? 'Error' : 'Warning'}: ${i.message}`).join('\n')}>
+                    <Icons.TriangleAlert size={14} className={issueSeverity === 'error' ? 'text-red-500' : 'text-amber-500'} />
+                </span>
+            )}
+            {isPinned && <span title="Output pinned: this node won't execute"><Icons.Pin size={14} className="text-violet-600" /></span>}
+            {metrics && (
+                <span className="text-[9px] font-mono text-slate-500 bg-white/60 px-1.5 py-0.5 rounded" title={metricsTitle}>
+                    {formatDuration(metrics.durationMs)}
+                    {metrics.usage && ` · ${metrics.usage.totalTokens.toLocaleString()} tok`}
+                    {metrics.costUsd !== undefined && ` · ${formatCost(metrics.costUsd)}`}
+                </span>
+            )}
             {node.data.status === 'success' && <Icons.CheckCircle2 size={14} className="text-green-600" />}
             {node.data.status === 'error' && <Icons.AlertCircle size={14} className="text-red-600" />}
+            {node.data.attempt !== undefined && node.data.attempt > 1 && node.data.retryPolicy && (
+                <span className="text-[9px] font-bold text-amber-700 bg-amber-100 px-1.5 py-0.5 rounded" title="Current attempt">
+                    {node.data.attempt}/{node.data.retryPolicy.maxAttempts}
+                </span>
+            )}
             {node.data.status === 'running' && <Icons.Loader2 size={14} className="text-blue-600 animate-spin" />}
+            {isPaused && <span title="Paused by the debugger"><Icons.CirclePause size={14} className="text-amber-600" /></span>}
+            {node.data.status === 'cancelled' && <span title="Cancelled"><Icons.Ban size={14} className="text-slate-500" /></span>}
             
+            {/* Partial Re-runs (Visible on Hover or Selected) */}
+            {onRun && (isHovered || selected) && (
+                <>
+                    <button 
+                        onClick={(e) => { e.stopPropagation(); onRun(node.id, 'only'); }}
+                        onMouseDown={stopPropagation}
+                        className="text-slate-400 hover:text-indigo-600"
+                        title="Run only this node, reusing outputs from the last run"
+                    >
+                        <Icons.Play size={14} />
+                    </button>
+                    <button 
+                        onClick={(e) => { e.stopPropagation(); onRun(node.id, 'from'); }}
+                        onMouseDown={stopPropagation}
+                        className="text-slate-400 hover:text-indigo-600"
+                        title="Run from here, reusing outputs from the last run"
+                    >
+                        <Icons.FastForward size={14} />
+                    </button>
+                </>
+            )}
+
+            {/* Breakpoint Toggle (Always visible once set) */}
+            <button 
+                onClick={(e) => { e.stopPropagation(); handleChange('breakpoint', !node.data.breakpoint || undefined); }}
+                onMouseDown={stopPropagation}
+                className={`transition-opacity ${node.data.breakpoint ? 'text-red-500 opacity-100' : `text-slate-300 hover:text-red-400 ${isHovered || selected ? 'opacity-100' : 'opacity-0'}`}`}
+                title={node.data.breakpoint ? 'Remove breakpoint' : 'Pause here when running (breakpoint)'}
+            >
+                <Icons.CircleDot size={14} fill={node.data.breakpoint ? 'currentColor' : 'none'} />
+            </button>
+
             {/* Delete Button (Visible on Hover or Selected) */}
             <button 
                 onClick={(e) => { e.stopPropagation(); onDelete(node.id); }}
@@ -315,6 +495,19 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
         {/* Webhook Configuration */}
         {node.type === 'webhook' && (
             <div className="space-y-3">
+                {/* Path used by the local webhook server */}
+                <div className="flex items-center gap-1 text-[10px] text-slate-500" onMouseDown={stopPropagation} title="Served by the local webhook server (npm run webhooks)">
+                    <Icons.Globe size={10} />
+                    <span className="font-mono text-slate-400">/webhook/</span>
+                    <input 
+                        type="text"
+                        value={node.data.webhookPath || ''}
+                        onChange={(e) => handleChange('webhookPath', e.target.value.replace(/[^\w\-/]/g, '') || undefined)}
+                        placeholder="file-name"
+                        className="flex-1 px-1 py-0.5 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                    />
+                </div>
+
                 {/* Content Type Selector */}
                 <div className="flex items-center gap-2 mb-2 p-1 bg-slate-100 rounded-lg w-max" onMouseDown={stopPropagation}>
                     <button 
@@ -439,36 +632,206 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
             </div>
         )}
 
+        {/* Schedule Configuration */}
+        {node.type === 'schedule' && (
+            <div className="space-y-3">
+                <div className="space-y-1">
+                    <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Cron Expression</label>
+                        <span className="text-[9px] text-slate-400" title="Names (MON, JAN), ranges (1-5), steps (*/15), lists (1,15) and @daily / @hourly / @weekly / @monthly / @yearly are supported">minute hour day month weekday</span>
+                    </div>
+                    <input 
+                        type="text"
+                        value={node.data.scheduleCron || ''}
+                        onChange={(e) => handleChange('scheduleCron', e.target.value)}
+                        onMouseDown={stopPropagation}
+                        placeholder="0 9 * * MON-FRI"
+                        className={`w-full px-2 py-1.5 bg-slate-50 border rounded text-xs font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500 ${upcomingFires?.error ? 'border-rose-300' : 'border-slate-200'}`}
+                    />
+                    {upcomingFires?.error && <p className="text-[9px] text-rose-500">{upcomingFires.error}</p>}
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Time Zone</label>
+                        <input 
+                            type="text"
+                            list={`timezones-${node.id}`}
+                            value={node.data.scheduleTimezone || ''}
+                            onChange={(e) => handleChange('scheduleTimezone', e.target.value || undefined)}
+                            onMouseDown={stopPropagation}
+                            placeholder={getLocalTimeZone()}
+                            className={`w-full px-2 py-1 bg-slate-50 border rounded text-[10px] font-mono focus:outline-none focus:ring-1 focus:ring-indigo-500 ${isValidTimeZone(scheduleZone) ? 'border-slate-200' : 'border-rose-300'}`}
+                        />
+                        <datalist id={`timezones-${node.id}`}>
+                            {listTimeZones().map(zone => <option key={zone} value={zone} />)}
+                        </datalist>
+                    </div>
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase" title="Fire times that passed while the editor or runner was closed, or while a run was still going">Missed Runs</label>
+                        <select 
+                            value={node.data.scheduleMissedRuns || 'run-once'}
+                            onChange={(e) => handleChange('scheduleMissedRuns', e.target.value as MissedRunPolicy)}
+                            onMouseDown={stopPropagation}
+                            className="w-full px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] focus:outline-none focus:ring-1 focus:ring-indigo-500"
+                        >
+                            <option value="skip">Skip</option>
+                            <option value="run-once">Run latest once</option>
+                            <option value="run-all">Run all</option>
+                        </select>
+                    </div>
+                </div>
+
+                <label className="flex items-center gap-1.5 text-[10px] text-slate-500" onMouseDown={stopPropagation} title="The headless runner (npm run webhooks) fires the schedule regardless">
+                    <input 
+                        type="checkbox"
+                        checked={!!node.data.scheduleInBrowser}
+                        onChange={(e) => handleChange('scheduleInBrowser', e.target.checked || undefined)}
+                        className="accent-teal-600"
+                    />
+                    Fire while this editor is open
+                </label>
+
+                {upcomingFires && !upcomingFires.error && (
+                    <div className="space-y-0.5">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Upcoming</label>
+                        {upcomingFires.times.length === 0 ? (
+                            <p className="text-[10px] text-amber-600">Never fires: no date matches this expression.</p>
+                        ) : (
+                            upcomingFires.times.map(time => (
+                                <div key={time} className="flex items-center gap-1.5 text-[10px] font-mono text-slate-600">
+                                    <Icons.Clock size={9} className="text-teal-500" />
+                                    {formatFireTime(time, scheduleZone)}
+                                </div>
+                            ))
+                        )}
+                    </div>
+                )}
+
+                <p className="text-[9px] text-slate-400">
+                    The run gets the fire time as <code className="bg-slate-100 px-1 rounded">scheduledTime</code>. Running it by hand uses the current time.
+                </p>
+            </div>
+        )}
+
+        {/* Sub-workflow Configuration */}
+        {node.type === 'sub-workflow' && (
+            <div className="space-y-3">
+                <div className="space-y-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase">Workflow</label>
+                    <select 
+                        value={node.data.subWorkflowName || ''}
+                        onChange={(e) => handleChange('subWorkflowName', e.target.value || undefined)}
+                        onMouseDown={stopPropagation}
+                        className={`w-full px-2 py-1.5 bg-slate-50 border rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 ${calledWorkflow || !node.data.subWorkflowName ? 'border-slate-200' : 'border-rose-300'}`}
+                    >
+                        <option value="">Select a saved workflow...</option>
+                        {savedWorkflows.map(w => <option key={w.name} value={w.name}>{w.name}</option>)}
+                        {node.data.subWorkflowName && !calledWorkflow && (
+                            <option value={node.data.subWorkflowName}>{node.data.subWorkflowName} (not in library)</option>
+                        )}
+                    </select>
+                    {savedWorkflows.length === 0 && (
+                        <p className="text-[9px] text-slate-400">Save a workflow to the library to call it from here.</p>
+                    )}
+                </div>
+
+                <div className="space-y-1">
+                    <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase" title="Sent as the called workflow's trigger payload">Inputs</label>
+                        <button 
+                            onClick={() => addKeyValue('subWorkflowInputs')}
+                            onMouseDown={stopPropagation}
+                            className="text-[10px] text-indigo-600 hover:text-indigo-800 flex items-center gap-1 px-1 py-0.5 rounded hover:bg-indigo-50"
+                        >
+                            <Icons.Plus size={10} /> Add
+                        </button>
+                    </div>
+                    {(node.data.subWorkflowInputs || []).map((pair, idx) => (
+                        <div key={pair.id} className="flex gap-1 items-start">
+                            <input 
+                                type="text"
+                                list={`subworkflow-inputs-${node.id}`}
+                                placeholder="Payload field"
+                                value={pair.key}
+                                onChange={(e) => updateKeyValue('subWorkflowInputs', idx, 'key', e.target.value)}
+                                onMouseDown={stopPropagation}
+                                className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono"
+                            />
+                            <input 
+                                type="text"
+                                placeholder="Value or {{variable}}"
+                                value={pair.value}
+                                onChange={(e) => updateKeyValue('subWorkflowInputs', idx, 'value', e.target.value)}
+                                onMouseDown={stopPropagation}
+                                className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-[10px] font-mono"
+                            />
+                            <button 
+                                onClick={() => removeKeyValue('subWorkflowInputs', idx)}
+                                onMouseDown={stopPropagation}
+                                className="text-red-400 hover:text-red-600 p-1 mt-0.5"
+                            >
+                                <Icons.Trash2 size={10} />
+                            </button>
+                        </div>
+                    ))}
+                    <datalist id={`subworkflow-inputs-${node.id}`}>
+                        {calledWorkflow?.inputs.map(field => <option key={field} value={field} />)}
+                    </datalist>
+                    {calledWorkflow && calledWorkflow.inputs.length > 0 && (
+                        <p className="text-[9px] text-slate-400">Its trigger reads <span className="font-mono">{calledWorkflow.inputs.join(', ')}</span>.</p>
+                    )}
+                </div>
+
+                {calledWorkflow && (
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Returns</label>
+                        {calledWorkflow.outputs.length > 0 ? (
+                            <div className="flex flex-wrap gap-1">
+                                {calledWorkflow.outputs.map(name => (
+                                    <span key={name} className="px-1.5 py-0.5 bg-indigo-50 text-indigo-700 rounded text-[10px] font-mono">{name}</span>
+                                ))}
+                            </div>
+                        ) : (
+                            <p className="text-[9px] text-slate-400">No declared outputs, so it returns the output of its last node.</p>
+                        )}
+                    </div>
+                )}
+            </div>
+        )}
+
         {/* AI Configuration */}
         {(node.type === 'ai-text' || node.type === 'ai-image') && (
             <div className="space-y-3">
                  <div className="space-y-1">
-                    <label className="text-[10px] font-bold text-slate-400 uppercase">Model</label>
+                    <div className="flex justify-between items-center">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Model</label>
+                        <label className="flex items-center gap-1 text-[10px] text-slate-500" onMouseDown={stopPropagation} title="Reuse the stored response when the resolved request (model, prompt, inputs, settings) is identical to an earlier one">
+                            <input 
+                                type="checkbox"
+                                checked={!!node.data.useCache}
+                                onChange={(e) => handleChange('useCache', e.target.checked || undefined)}
+                                className="accent-indigo-600"
+                            />
+                            <Icons.DatabaseZap size={10} /> Use cache
+                        </label>
+                    </div>
                     <select 
-                        value={node.data.model || (node.type === 'ai-image' ? 'gemini-2.5-flash-image' : 'gemini-2.5-flash')}
+                        value={node.data.model || DEFAULT_AI_MODELS[node.type as AiNodeType]}
                         onChange={(e) => handleChange('model', e.target.value)}
                         onMouseDown={stopPropagation}
                         className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500"
                     >
-                        {node.type === 'ai-text' ? (
-                          <>
-                            <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                            <option value="gemini-2.5-flash-lite-latest">Gemini Flash Lite</option>
-                            <option value="gemini-3-pro-preview">Gemini 3 Pro</option>
-                          </>
-                        ) : (
-                          <>
-                            <option value="gemini-2.5-flash-image">Gemini 2.5 Flash Image</option>
-                            <option value="gemini-3-pro-image-preview">Gemini 3 Pro Image (HD)</option>
-                          </>
-                        )}
+                        {AI_MODELS.filter(m => m.nodeType === node.type).map(m => (
+                            <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
                     </select>
                 </div>
 
                 <div className="space-y-1">
                     <div className="flex justify-between items-center">
                         <label className="text-[10px] font-bold text-slate-400 uppercase">Prompt</label>
-                        <span className="text-[9px] text-slate-400">Supports <code className="bg-slate-100 px-1 rounded text-indigo-600">{"{{variable}}"}</code></span>
+                        <span className="text-[9px] text-slate-400" title="Paths: {{user.name}}, {{items[0]}}. Filters: default, upper, lower, json, length, join, truncate, base64">Supports <code className="bg-slate-100 px-1 rounded text-indigo-600">{"{{variable | filter}}"}</code></span>
                     </div>
                     <textarea 
                         value={node.data.prompt || ''}
@@ -484,8 +847,8 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
             </div>
         )}
 
-        {/* Mappings & Schema Logic (Shared for ai-text and webhook) */}
-        {(node.type === 'ai-text' || node.type === 'webhook') && (
+        {/* Mappings & Schema Logic (Shared for ai-text and triggers) */}
+        {(node.type === 'ai-text' || isTriggerType(node.type)) && (
              <div className="space-y-2">
                 {node.type === 'ai-text' ? (
                      <button 
@@ -500,7 +863,7 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
                     <label className="text-[10px] font-bold text-slate-400 uppercase">Payload Mappings</label>
                 )}
                 
-                {(showSchema || node.type === 'webhook') && (
+                {(showSchema || isTriggerType(node.type)) && (
                     <div className="space-y-2">
                         {node.type === 'ai-text' && (
                              <>
@@ -521,7 +884,7 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
                         {/* Output Mappings Table */}
                         <div className={`pt-2 ${node.type === 'ai-text' ? 'border-t border-slate-100' : ''}`}>
                             <div className="flex items-center justify-between mb-2">
-                                <label className="text-[10px] font-bold text-indigo-500 uppercase">Extract {node.type === 'webhook' ? 'Fields' : 'JSON Fields'}</label>
+                                <label className="text-[10px] font-bold text-indigo-500 uppercase">Extract {isTriggerType(node.type) ? 'Fields' : 'JSON Fields'}</label>
                                 <button 
                                     onClick={addMapping}
                                     onMouseDown={stopPropagation}
@@ -537,7 +900,7 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
                                         <div key={idx} className="flex gap-1 items-start">
                                             <input 
                                                 type="text" 
-                                                placeholder={node.type === 'webhook' ? (node.data.webhookContentType === 'form-data' ? "Form Key" : "JSON Key") : "JSON Key"}
+                                                placeholder={node.type === 'webhook' ? (node.data.webhookContentType === 'form-data' ? "Form Key" : "JSON Key") : node.type === 'schedule' ? "scheduledTime" : "JSON Key"}
                                                 value={mapping.field}
                                                 onChange={(e) => updateMapping(idx, 'field', e.target.value)}
                                                 onMouseDown={stopPropagation}
@@ -573,13 +936,26 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
             </div>
         )}
 
-        {/* Output Variable Section for AI Nodes */}
-        {(node.type === 'ai-text' || node.type === 'ai-image') && (
+        {/* Output Variable Section for AI, Loop, API and Sub-workflow Nodes */}
+        {(node.type === 'ai-text' || node.type === 'ai-image' || node.type === 'loop' || node.type === 'api' || node.type === 'sub-workflow') && (
             <div className="space-y-1 mt-2 pt-2 border-t border-slate-100">
                 <div className="flex items-center gap-2">
                      <label className="text-[10px] font-bold text-slate-400 uppercase flex items-center gap-1">
                         <Icons.Save size={10} /> Store Result As
                     </label>
+                    <label 
+                        className="ml-auto flex items-center gap-1 text-[10px] text-slate-500"
+                        title="Global variables are visible to every node. Otherwise the variable only exists on this branch or loop iteration."
+                        onMouseDown={stopPropagation}
+                    >
+                        <input 
+                            type="checkbox"
+                            checked={!!node.data.storeGlobally}
+                            onChange={(e) => handleChange('storeGlobally', e.target.checked || undefined)}
+                            className="accent-indigo-600"
+                        />
+                        Global
+                    </label>
                 </div>
                 <div className="relative">
                     <input 
@@ -707,6 +1083,303 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
             </div>
         )}
 
+        {/* Condition Configuration */}
+        {node.type === 'condition' && (
+            <div className="space-y-1">
+                <div className="flex justify-between items-center">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase">Condition</label>
+                    <span className="text-[9px] text-slate-400">Use <code className="bg-slate-100 px-1 rounded text-indigo-600">input</code> for the incoming data</span>
+                </div>
+                <input 
+                    type="text"
+                    value={node.data.condition || ''}
+                    onChange={(e) => handleChange('condition', e.target.value)}
+                    onMouseDown={stopPropagation}
+                    onDragOver={handleDragOverInput}
+                    onDrop={(e) => handleTextDrop(e, 'condition')}
+                    placeholder="{{score}} > 5 && status == 'ok'"
+                    className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 font-mono"
+                />
+                <p className="text-[9px] text-slate-400">
+                    Supports ==, !=, &gt;, &lt;, &gt;=, &lt;=, &amp;&amp;, ||, !, <code>contains</code>, <code>is empty</code> and <code>is not empty</code>.
+                </p>
+            </div>
+        )}
+
+        {/* Loop Configuration */}
+        {node.type === 'loop' && (
+            <div className="space-y-1">
+                <label className="text-[10px] font-bold text-slate-400 uppercase">Array to Iterate</label>
+                <input 
+                    type="text"
+                    value={node.data.loopArray || ''}
+                    onChange={(e) => handleChange('loopArray', e.target.value)}
+                    onMouseDown={stopPropagation}
+                    onDragOver={handleDragOverInput}
+                    onDrop={(e) => handleTextDrop(e, 'loopArray')}
+                    placeholder="trigger_data.products"
+                    className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 font-mono"
+                />
+                <p className="text-[9px] text-slate-400">
+                    The <b>body</b> branch runs once per element with <code className="bg-slate-100 px-1 rounded text-indigo-600">{"{{item}}"}</code> and <code className="bg-slate-100 px-1 rounded text-indigo-600">{"{{index}}"}</code> set. <b>done</b> receives the collected results.
+                </p>
+            </div>
+        )}
+
+        {/* API Configuration */}
+        {node.type === 'api' && (
+            <div className="space-y-3">
+                <div className="flex gap-1">
+                    <select 
+                        value={node.data.apiMethod || 'GET'}
+                        onChange={(e) => handleChange('apiMethod', e.target.value)}
+                        onMouseDown={stopPropagation}
+                        className="w-24 px-2 py-1.5 bg-slate-100 border border-slate-200 rounded text-xs font-bold text-slate-600"
+                    >
+                        {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+                    </select>
+                    <input 
+                        type="text"
+                        value={node.data.apiUrl || ''}
+                        onChange={(e) => handleChange('apiUrl', e.target.value)}
+                        onMouseDown={stopPropagation}
+                        onDragOver={handleDragOverInput}
+                        onDrop={(e) => handleTextDrop(e, 'apiUrl')}
+                        placeholder="https://api.example.com/items/{{id}}"
+                        className="flex-1 min-w-0 px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 font-mono"
+                    />
+                </div>
+
+                {([['apiQueryParams', 'Query Params'], ['apiHeaders', 'Headers']] as const).map(([listKey, title]) => (
+                    <div key={listKey} className="space-y-1">
+                        <div className="flex justify-between items-center">
+                            <label className="text-[10px] font-bold text-slate-400 uppercase">{title}</label>
+                            <button 
+                                onClick={() => addKeyValue(listKey)}
+                                onMouseDown={stopPropagation}
+                                className="text-[10px] text-indigo-600 hover:text-indigo-800 flex items-center gap-1 px-1 py-0.5 rounded hover:bg-indigo-50"
+                            >
+                                <Icons.Plus size={10} /> Add
+                            </button>
+                        </div>
+                        {(node.data[listKey] || []).map((pair, idx) => (
+                            <div key={pair.id} className="flex gap-1 items-start">
+                                <input 
+                                    type="text"
+                                    placeholder="Key"
+                                    value={pair.key}
+                                    onChange={(e) => updateKeyValue(listKey, idx, 'key', e.target.value)}
+                                    onMouseDown={stopPropagation}
+                                    className="flex-1 min-w-0 px-2 py-1 bg-slate-50 border border-slate-200 rounded text-[10px] font-mono"
+                                />
+                                <input 
+                                    type="text"
+                                    placeholder="Value or {{variable}}"
+                                    value={pair.value}
+                                    onChange={(e) => updateKeyValue(listKey, idx, 'value', e.target.value)}
+                                    onMouseDown={stopPropagation}
+                                    className="flex-1 min-w-0 px-2 py-1 bg-white border border-slate-200 rounded text-[10px] font-mono"
+                                />
+                                <button 
+                                    onClick={() => removeKeyValue(listKey, idx)}
+                                    onMouseDown={stopPropagation}
+                                    className="text-red-400 hover:text-red-600 p-1 mt-0.5"
+                                >
+                                    <Icons.Trash2 size={10} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                ))}
+
+                {node.data.apiMethod && node.data.apiMethod !== 'GET' && node.data.apiMethod !== 'HEAD' && (
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-slate-400 uppercase">Body</label>
+                        <textarea 
+                            value={node.data.apiBody || ''}
+                            onChange={(e) => handleChange('apiBody', e.target.value)}
+                            onMouseDown={stopPropagation}
+                            onDragOver={handleDragOverInput}
+                            onDrop={(e) => handleTextDrop(e, 'apiBody')}
+                            rows={4}
+                            placeholder='{"prompt": "{{description}}"}'
+                            className="w-full px-2 py-1.5 bg-slate-50 border border-slate-200 rounded text-xs focus:outline-none focus:ring-1 focus:ring-indigo-500 font-mono resize-y"
+                        />
+                    </div>
+                )}
+
+                <label className="flex items-center gap-2 text-[10px] text-slate-500" onMouseDown={stopPropagation}>
+                    <input 
+                        type="checkbox"
+                        checked={node.data.apiFailOnError !== false}
+                        onChange={(e) => handleChange('apiFailOnError', e.target.checked)}
+                        className="accent-indigo-600"
+                    />
+                    Fail node on non-2xx response
+                </label>
+                <p className="text-[9px] text-slate-400">
+                    Output: <code>status</code>, <code>headers</code> and <code>body</code> (JSON parsed, images as Data URLs).
+                </p>
+            </div>
+        )}
+
+        {/* Timeout & Retry Policy (AI and API Nodes) */}
+        {(node.type === 'ai-text' || node.type === 'ai-image' || node.type === 'api') && (
+            <div className="space-y-2 pt-2 border-t border-slate-100">
+                <div className="flex items-center justify-between">
+                    <button 
+                        onClick={(e) => { stopPropagation(e); setShowRetry(!showRetry); }}
+                        onMouseDown={stopPropagation}
+                        className="flex items-center gap-1 text-[10px] font-bold text-slate-400 uppercase hover:text-indigo-600 transition-colors"
+                    >
+                        {showRetry ? <Icons.ChevronDown size={12} /> : <Icons.ChevronRight size={12} />}
+                        <span>Retry Policy</span>
+                    </button>
+                    <label className="flex items-center gap-1 text-[10px] text-slate-500" onMouseDown={stopPropagation}>
+                        <input 
+                            type="checkbox"
+                            checked={!!node.data.retryPolicy}
+                            onChange={(e) => onChange(node.id, { ...node.data, retryPolicy: e.target.checked ? DEFAULT_RETRY_POLICY : undefined })}
+                            className="accent-indigo-600"
+                        />
+                        Enabled
+                    </label>
+                </div>
+
+                <div className="flex items-center justify-between text-[10px] text-slate-500" onMouseDown={stopPropagation}>
+                    <span className="flex items-center gap-1"><Icons.Timer size={10} /> Timeout (s)</span>
+                    <input 
+                        type="number" min={0}
+                        value={node.data.timeoutMs !== undefined ? node.data.timeoutMs / 1000 : ''}
+                        placeholder={`${(DEFAULT_NODE_TIMEOUTS[node.type] || 0) / 1000} (default)`}
+                        onChange={(e) => {
+                            const seconds = parseFloat(e.target.value);
+                            handleChange('timeoutMs', isNaN(seconds) ? undefined : Math.max(0, seconds * 1000));
+                        }}
+                        className="w-24 px-1 py-0.5 bg-slate-50 border border-slate-200 rounded text-[10px] text-right"
+                    />
+                </div>
+
+                {showRetry && node.data.retryPolicy && (
+                    <div className="space-y-2 bg-slate-50 p-2 rounded border border-slate-100" onMouseDown={stopPropagation}>
+                        <div className="grid grid-cols-3 gap-1">
+                            <div className="space-y-0.5">
+                                <label className="text-[9px] font-bold text-slate-400 uppercase">Attempts</label>
+                                <input 
+                                    type="number" min={1} max={10}
+                                    value={node.data.retryPolicy.maxAttempts}
+                                    onChange={(e) => updateRetryPolicy({ maxAttempts: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+                                    className="w-full px-1 py-1 bg-white border border-slate-200 rounded text-[10px]"
+                                />
+                            </div>
+                            <div className="space-y-0.5">
+                                <label className="text-[9px] font-bold text-slate-400 uppercase">Backoff</label>
+                                <select 
+                                    value={node.data.retryPolicy.backoff}
+                                    onChange={(e) => updateRetryPolicy({ backoff: e.target.value as RetryPolicy['backoff'] })}
+                                    className="w-full px-1 py-1 bg-white border border-slate-200 rounded text-[10px]"
+                                >
+                                    <option value="fixed">Fixed</option>
+                                    <option value="exponential">Exponential</option>
+                                </select>
+                            </div>
+                            <div className="space-y-0.5">
+                                <label className="text-[9px] font-bold text-slate-400 uppercase">Delay (ms)</label>
+                                <input 
+                                    type="number" min={0} step={500}
+                                    value={node.data.retryPolicy.delayMs}
+                                    onChange={(e) => updateRetryPolicy({ delayMs: Math.max(0, parseInt(e.target.value, 10) || 0) })}
+                                    className="w-full px-1 py-1 bg-white border border-slate-200 rounded text-[10px]"
+                                />
+                            </div>
+                        </div>
+                        <div className="space-y-0.5">
+                            <label className="text-[9px] font-bold text-slate-400 uppercase">Retry On</label>
+                            <div className="flex flex-wrap gap-1">
+                                {RETRY_CATEGORIES.map(({ value, label }) => {
+                                    const active = node.data.retryPolicy!.retryOn.includes(value);
+                                    return (
+                                        <button 
+                                            key={value}
+                                            onClick={() => toggleRetryCategory(value)}
+                                            className={`text-[9px] px-1.5 py-0.5 rounded border transition-colors ${active ? 'bg-indigo-50 border-indigo-200 text-indigo-700' : 'bg-white border-slate-200 text-slate-400'}`}
+                                        >
+                                            {label}
+                                        </button>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    </div>
+                )}
+            </div>
+        )}
+
+        {/* Error Output (all nodes except the trigger) */}
+        {!isTriggerType(node.type) && (
+            <div className="pt-2 border-t border-slate-100">
+                <label className="flex items-center gap-1.5 text-[10px] text-slate-500" onMouseDown={stopPropagation}>
+                    <input 
+                        type="checkbox"
+                        checked={!!node.data.errorHandle}
+                        onChange={(e) => handleChange('errorHandle', e.target.checked || undefined)}
+                        className="accent-rose-600"
+                    />
+                    <Icons.GitBranch size={10} className="text-rose-500" />
+                    Route failures to <span className="font-bold text-rose-600">error</span> output
+                </label>
+                {node.data.errorHandle && (
+                    <p className="text-[9px] text-slate-400 mt-1">
+                        Receives <code>message</code>, <code>nodeId</code>, <code>category</code>, <code>attempts</code> and <code>input</code> instead of stopping the branch.
+                    </p>
+                )}
+            </div>
+        )}
+
+        {/* Pinned / Mock Output */}
+        {canPinOutput(node.type) && (
+            <div className="pt-2 border-t border-slate-100" onMouseDown={stopPropagation}>
+                {mockDraft !== null ? (
+                    <div className="space-y-1">
+                        <label className="text-[10px] font-bold text-violet-600 uppercase flex items-center gap-1">
+                            <Icons.Pin size={10} /> Mock output
+                        </label>
+                        <textarea 
+                            value={mockDraft}
+                            onChange={(e) => setMockDraft(e.target.value)}
+                            rows={4}
+                            placeholder='{"status": 200, "body": {...}} or plain text'
+                            className="w-full px-2 py-1 bg-white border border-slate-200 rounded text-xs font-mono focus:outline-none focus:ring-1 focus:ring-violet-500"
+                            autoFocus
+                        />
+                        <div className="flex justify-end gap-2 text-[10px]">
+                            <button onClick={() => setMockDraft(null)} className="text-slate-400 hover:text-slate-700">Cancel</button>
+                            <button onClick={saveMock} className="font-medium text-violet-600 hover:text-violet-800">Pin</button>
+                        </div>
+                    </div>
+                ) : isPinned ? (
+                    <div className="space-y-1">
+                        <div className="flex justify-between items-center">
+                            <label className="text-[10px] font-bold text-violet-600 uppercase flex items-center gap-1" title="Runs use this instead of executing the node">
+                                <Icons.Pin size={10} /> Pinned output
+                            </label>
+                            <div className="flex items-center gap-2 text-[10px]">
+                                <button onClick={editMock} className="text-slate-400 hover:text-violet-600">Edit</button>
+                                <button onClick={() => handleChange('pinnedOutput', undefined)} className="text-slate-400 hover:text-red-500">Unpin</button>
+                            </div>
+                        </div>
+                        <div className="text-xs font-mono break-all max-h-40 overflow-y-auto p-2 bg-violet-50/50 border border-violet-100 rounded">
+                            {renderOutput(node.data.pinnedOutput)}
+                        </div>
+                    </div>
+                ) : (
+                    <button onClick={editMock} className="text-[10px] text-slate-400 hover:text-violet-600 flex items-center gap-1" title="Skip execution and use a typed-in output instead">
+                        <Icons.Pin size={10} /> Mock output
+                    </button>
+                )}
+            </div>
+        )}
+
         {/* Output Result Display */}
         {node.data.outputValue && (
             <div className="p-3 border-t border-slate-100 bg-slate-50/50 rounded-b-xl -mx-4 -mb-4 mt-2">
@@ -714,6 +1387,16 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
                     <label className="text-[10px] font-bold text-green-600 uppercase flex items-center gap-1">
                         <Icons.CheckCircle2 size={10} /> Result
                     </label>
+                    {canPinOutput(node.type) && !isPinned && (
+                        <button 
+                            onClick={() => handleChange('pinnedOutput', node.data.outputValue)}
+                            onMouseDown={stopPropagation}
+                            className="text-[10px] text-slate-400 hover:text-violet-600 flex items-center gap-1"
+                            title="Reuse this result in future runs instead of executing the node"
+                        >
+                            <Icons.Pin size={10} /> Pin
+                        </button>
+                    )}
                  </div>
                  <div className="text-xs font-mono break-all max-h-60 overflow-y-auto">
                     {renderOutput(node.data.outputValue)}
@@ -723,11 +1406,24 @@ export const Node: React.FC<NodeProps> = ({ node, selected, onMouseDown, onHandl
 
       </div>
       
-      {/* Output Handle */}
-      <div
-        className="absolute -right-3 top-7 w-3 h-3 bg-slate-400 rounded-full border-2 border-white hover:bg-indigo-500 hover:scale-125 transition-all cursor-crosshair z-30"
-        onMouseDown={(e) => onHandleMouseDown(e, node.id, 'source')}
-      />
+      {/* Output Handles (one per named output, e.g. true / false for conditions) */}
+      {getSourceHandles(node).map((handle, _, handles) => (
+        <div
+          key={handle}
+          className="absolute -right-3 flex items-center z-30"
+          style={{ top: getSourceHandleY(node, handle) }}
+        >
+          {handles.length > 1 && (
+            <span className="absolute right-4 text-[9px] font-bold uppercase text-slate-400 bg-white/80 px-1 rounded pointer-events-none">
+              {handle}
+            </span>
+          )}
+          <div
+            className={`w-3 h-3 ${HANDLE_COLORS[handle] || 'bg-slate-400'} rounded-full border-2 border-white hover:bg-indigo-500 hover:scale-125 transition-all cursor-crosshair`}
+            onMouseDown={(e) => onHandleMouseDown(e, node.id, 'source', handle)}
+          />
+        </div>
+      ))}
     </div>
   );
 };
@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { Node, NodeType, NodeInput } from '../types';
+import { Node, NodeType, NodeInput, HTTP_METHODS, AI_MODELS, DEFAULT_AI_MODELS, AiNodeType, isTriggerType } from '../types';
 import * as Icons from 'lucide-react';
 
 interface PropertiesPanelProps {
@@ -154,22 +154,13 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onChange
                 <div className="space-y-2">
                     <label className="text-xs font-bold text-slate-500 uppercase">Model</label>
                     <select 
-                        value={node.data.model || (node.type === 'ai-image' ? 'gemini-2.5-flash-image' : 'gemini-2.5-flash')}
+                        value={node.data.model || DEFAULT_AI_MODELS[node.type as AiNodeType]}
                         onChange={(e) => handleChange('model', e.target.value)}
                         className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm"
                     >
-                        {node.type === 'ai-text' ? (
-                          <>
-                            <option value="gemini-2.5-flash">Gemini 2.5 Flash</option>
-                            <option value="gemini-2.5-flash-lite-latest">Gemini Flash Lite</option>
-                            <option value="gemini-3-pro-preview">Gemini 3 Pro</option>
-                          </>
-                        ) : (
-                          <>
-                            <option value="gemini-2.5-flash-image">Gemini 2.5 Flash Image</option>
-                            <option value="gemini-3-pro-image-preview">Gemini 3 Pro Image (HD)</option>
-                          </>
-                        )}
+                        {AI_MODELS.filter(m => m.nodeType === node.type).map(m => (
+                            <option key={m.id} value={m.id}>{m.label}</option>
+                        ))}
                     </select>
                 </div>
 
@@ -323,15 +314,14 @@ export const PropertiesPanel: React.FC<PropertiesPanelProps> = ({ node, onChange
                         onChange={(e) => handleChange('apiMethod', e.target.value)}
                         className="w-full px-3 py-2 bg-white border border-slate-300 rounded-md text-sm"
                     >
-                        <option value="GET">GET</option>
-                        <option value="POST">POST</option>
+                        {HTTP_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
                     </select>
                 </div>
             </div>
         )}
         
         {/* Variable Output Configuration (Common for nodes that produce output) */}
-        {(node.type === 'ai-text' || node.type === 'ai-image' || node.type === 'webhook' || node.type === 'api') && (
+        {(node.type === 'ai-text' || node.type === 'ai-image' || isTriggerType(node.type) || node.type === 'api' || node.type === 'sub-workflow') && (
             <div className="space-y-2 pt-4 border-t border-slate-100">
                 <label className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
                     <Icons.Save size={14} /> Output Variable
@@ -0,0 +1,115 @@
+import React from 'react';
+import * as Icons from 'lucide-react';
+import { NodeStatus } from '../types';
+import { RunOutcome } from '../services/workflowEvents';
+import { RunRecord, RunSummary } from '../services/runHistory';
+import { formatDuration } from '../services/runMetrics';
+import { formatCost } from '../services/costEstimator';
+
+interface RunHistoryPanelProps {
+  runs: RunSummary[];
+  openRun: RunRecord | null;
+  onOpen: (id: string) => void;
+  onDelete: (id: string) => void;
+  onClear: () => void;
+  onClose: () => void;
+  onSelectNode: (nodeId: string) => void;
+}
+
+const OUTCOME_STYLES: Record<RunOutcome, string> = {
+  success: 'bg-green-50 text-green-700 border-green-200',
+  failed: 'bg-red-50 text-red-700 border-red-200',
+  cancelled: 'bg-slate-100 text-slate-600 border-slate-200',
+  'timed-out': 'bg-orange-50 text-orange-700 border-orange-200',
+  blocked: 'bg-amber-50 text-amber-700 border-amber-200',
+  'over-budget': 'bg-rose-50 text-rose-700 border-rose-200',
+};
+
+const STATUS_COLORS: Record<NodeStatus, string> = {
+  idle: 'text-slate-400',
+  running: 'text-blue-500',
+  paused: 'text-amber-500',
+  success: 'text-green-600',
+  error: 'text-red-600',
+  cancelled: 'text-slate-400',
+};
+
+const formatOptionalDuration = (ms?: number) => ms === undefined ? '–' : formatDuration(ms);
+
+export const RunHistoryPanel: React.FC<RunHistoryPanelProps> = ({ runs, openRun, onOpen, onDelete, onClear, onClose, onSelectNode }) => {
+  return (
+    <div className="absolute top-4 left-4 w-80 bg-white text-xs rounded-xl shadow-xl z-30 border border-slate-200 flex flex-col max-h-[calc(100%-2rem)]">
+      <div className="flex justify-between items-center p-3 border-b border-slate-100">
+        <span className="font-bold text-slate-700 flex items-center gap-1">
+          <Icons.History size={12} /> Run History
+        </span>
+        <div className="flex items-center gap-2">
+          {runs.length > 0 && (
+            <button onClick={onClear} className="text-slate-400 hover:text-red-500" title="Delete all runs">
+              <Icons.Trash2 size={12} />
+            </button>
+          )}
+          <button onClick={onClose} className="text-slate-400 hover:text-slate-700"><Icons.X size={12} /></button>
+        </div>
+      </div>
+
+      <div className="overflow-y-auto max-h-64 p-2 space-y-1">
+        {runs.length === 0 && <p className="text-slate-400 text-center py-4">No runs recorded yet.</p>}
+        {runs.map(run => (
+          <div
+            key={run.id}
+            onClick={() => onOpen(run.id)}
+            className={`group flex items-center gap-2 p-2 rounded cursor-pointer border ${openRun?.id === run.id ? 'border-indigo-300 bg-indigo-50' : 'border-transparent hover:bg-slate-50'}`}
+          >
+            <span className={`px-1.5 py-0.5 rounded border text-[10px] font-bold ${OUTCOME_STYLES[run.outcome]}`}>{run.outcome}</span>
+            <div className="flex-1 min-w-0">
+              <div className="text-slate-700">{new Date(run.startedAt).toLocaleString()}</div>
+              <div className="text-[10px] text-slate-400">
+                {formatOptionalDuration(run.durationMs)} · {run.nodeCount} node{run.nodeCount === 1 ? '' : 's'}
+                {run.failedCount > 0 && <span className="text-red-500"> · {run.failedCount} failed</span>}
+                {run.totalTokens > 0 && <> · {run.totalTokens.toLocaleString()} tokens</>}
+                {run.costUsd > 0 && <> · {formatCost(run.costUsd)}</>}
+              </div>
+            </div>
+            <button
+              onClick={(e) => { e.stopPropagation(); onDelete(run.id); }}
+              className="opacity-0 group-hover:opacity-100 text-slate-300 hover:text-red-500"
+              title="Delete run"
+            >
+              <Icons.X size={12} />
+            </button>
+          </div>
+        ))}
+      </div>
+
+      {/* Per-node executions of the open run */}
+      {openRun && (
+        <div className="border-t border-slate-100 p-2 overflow-y-auto flex-1 min-h-0">
+          <div className="text-[10px] font-bold text-slate-400 uppercase mb-1 px-1">Node executions</div>
+          <div className="space-y-0.5">
+            {openRun.nodeRuns.map((nodeRun, i) => (
+              <div
+                key={i}
+                onClick={() => onSelectNode(nodeRun.nodeId)}
+                className="flex items-center gap-2 px-1 py-1 rounded hover:bg-slate-50 cursor-pointer"
+                title={nodeRun.error || undefined}
+              >
+                <Icons.Circle size={8} fill="currentColor" className={STATUS_COLORS[nodeRun.status]} />
+                <span className="flex-1 truncate text-slate-700">{nodeRun.label}</span>
+                {nodeRun.usage && (
+                  <span className="text-[10px] text-slate-400 font-mono" title={`${nodeRun.usage.promptTokens} prompt + ${nodeRun.usage.candidatesTokens} output`}>
+                    {nodeRun.usage.totalTokens.toLocaleString()} tok
+                  </span>
+                )}
+                {nodeRun.attempts !== undefined && nodeRun.attempts > 1 && (
+                  <span className="text-[10px] text-amber-600">×{nodeRun.attempts}</span>
+                )}
+                <span className="text-[10px] text-slate-400 font-mono">{formatOptionalDuration(nodeRun.durationMs)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
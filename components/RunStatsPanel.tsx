@@ -0,0 +1,109 @@
+import React from 'react';
+import * as Icons from 'lucide-react';
+import { Node, TokenUsage } from '../types';
+import { RunStats, formatDuration } from '../services/runMetrics';
+import { formatCost } from '../services/costEstimator';
+
+interface RunStatsPanelProps {
+  stats: RunStats;
+  nodes: Node[];
+  onSelectNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+export const RunStatsPanel: React.FC<RunStatsPanelProps> = ({ stats, nodes, onSelectNode, onClose }) => {
+  const models = Object.entries<TokenUsage>(stats.tokensByModel);
+  const nodeById = new Map<string, Node>(nodes.map(n => [n.id, n]));
+
+  return (
+    <div className="absolute bottom-4 right-4 w-80 bg-white text-xs rounded-xl shadow-xl z-30 border border-slate-200 flex flex-col max-h-[60%]">
+      <div className="flex justify-between items-center p-3 border-b border-slate-100">
+        <span className="font-bold text-slate-700 flex items-center gap-1">
+          <Icons.Timer size={12} /> Run Summary
+        </span>
+        <button onClick={onClose} className="text-slate-400 hover:text-slate-700"><Icons.X size={12} /></button>
+      </div>
+
+      <div className="overflow-y-auto p-3 space-y-3">
+        <div className="flex justify-between">
+          <span className="text-slate-500">Total duration</span>
+          <span className="font-mono text-slate-800">{formatDuration(stats.durationMs)}</span>
+        </div>
+        {/* Runs recorded before costs were tracked have none */}
+        {stats.costUsd !== undefined && (
+          <div className="flex justify-between">
+            <span className="text-slate-500">AI cost</span>
+            <span className="font-mono text-slate-800">{formatCost(stats.costUsd)}</span>
+          </div>
+        )}
+
+        <div className="space-y-1">
+          <div className="flex justify-between text-[10px] font-bold text-slate-400 uppercase">
+            <span>Critical path</span>
+            <span className="font-mono normal-case">{formatDuration(stats.criticalPathMs)}</span>
+          </div>
+          {stats.criticalPath.length === 0 && <p className="text-slate-400">No nodes executed.</p>}
+          {stats.criticalPath.map((nodeId, i) => {
+            const node = nodeById.get(nodeId);
+            const share = stats.criticalPathMs > 0 && node?.data.metrics ? node.data.metrics.durationMs / stats.criticalPathMs : 0;
+            return (
+              <button
+                key={nodeId}
+                onClick={() => onSelectNode(nodeId)}
+                className="w-full flex items-center gap-2 px-1 py-0.5 rounded hover:bg-slate-50 text-left"
+              >
+                <span className="w-4 text-slate-300 text-right">{i + 1}</span>
+                <span className="flex-1 truncate text-slate-700">{node?.data.label || nodeId}</span>
+                <span className="w-16 h-1.5 bg-slate-100 rounded overflow-hidden">
+                  <span className="block h-full bg-indigo-400" style={{ width: `${Math.round(share * 100)}%` }} />
+                </span>
+                <span className="w-12 text-right font-mono text-[10px] text-slate-400">
+                  {node?.data.metrics ? formatDuration(node.data.metrics.durationMs) : '–'}
+                </span>
+              </button>
+            );
+          })}
+        </div>
+
+        <div className="space-y-1">
+          <div className="text-[10px] font-bold text-slate-400 uppercase">Tokens</div>
+          {models.length === 0 ? (
+            <p className="text-slate-400">No AI requests were made.</p>
+          ) : (
+            <table className="w-full font-mono text-[10px]">
+              <thead>
+                <tr className="text-slate-400">
+                  <th className="text-left font-normal">Model</th>
+                  <th className="text-right font-normal">Prompt</th>
+                  <th className="text-right font-normal">Output</th>
+                  <th className="text-right font-normal">Total</th>
+                  <th className="text-right font-normal">Cost</th>
+                </tr>
+              </thead>
+              <tbody className="text-slate-700">
+                {models.map(([model, usage]) => (
+                  <tr key={model}>
+                    <td className="truncate max-w-[8rem]" title={model}>{model}</td>
+                    <td className="text-right">{usage.promptTokens.toLocaleString()}</td>
+                    <td className="text-right">{usage.candidatesTokens.toLocaleString()}</td>
+                    <td className="text-right">{usage.totalTokens.toLocaleString()}</td>
+                    <td className="text-right">{formatCost(stats.costByModel?.[model] ?? 0)}</td>
+                  </tr>
+                ))}
+                {models.length > 1 && (
+                  <tr className="border-t border-slate-100 font-bold">
+                    <td>All</td>
+                    <td className="text-right">{stats.totalTokens.promptTokens.toLocaleString()}</td>
+                    <td className="text-right">{stats.totalTokens.candidatesTokens.toLocaleString()}</td>
+                    <td className="text-right">{stats.totalTokens.totalTokens.toLocaleString()}</td>
+                    <td className="text-right">{formatCost(stats.costUsd ?? 0)}</td>
+                  </tr>
+                )}
+              </tbody>
+            </table>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
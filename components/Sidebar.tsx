@@ -1,7 +1,13 @@
 import React from 'react';
-import { NodeType, NODE_COLORS, NODE_ICONS, VariableDefinition } from '../types';
+import { NodeType, NODE_COLORS, NODE_ICONS, VariableDefinition, ScopeKind } from '../types';
 import * as Icons from 'lucide-react';
 
+const SCOPE_LABELS: Record<ScopeKind, { label: string; description: string }> = {
+  global: { label: 'G', description: 'Global: visible to every node in the run' },
+  branch: { label: 'B', description: 'Branch: visible to the nodes after it on the same branch' },
+  loop: { label: 'L', description: 'Loop: visible inside one loop iteration' },
+};
+
 interface SidebarProps {
   availableVariables?: VariableDefinition[];
 }
@@ -75,6 +81,7 @@ export const Sidebar: React.FC<SidebarProps> = ({ availableVariables = [] }) =>
         <div className="mb-6">
           <h3 className="text-xs font-semibold text-slate-500 mb-2">Triggers</h3>
           <NodeItem type="webhook" label="Webhook" description="Start workflow via HTTP" />
+          <NodeItem type="schedule" label="Schedule" description="Start workflow on a cron schedule" />
         </div>
 
         <div className="mb-6">
@@ -88,13 +95,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ availableVariables = [] }) =>
           <NodeItem type="condition" label="If / Else" description="Conditional logic" />
           <NodeItem type="loop" label="Loop" description="Iterate over a list" />
           <NodeItem type="api" label="API Call" description="Make HTTP requests" />
+          <NodeItem type="sub-workflow" label="Sub-workflow" description="Run a saved workflow" />
         </div>
         
-        {/* Global Variables Section */}
+        {/* Variables Section */}
         {availableVariables.length > 0 && (
             <div className="mb-6 pt-4 border-t border-slate-200">
                 <h3 className="text-xs font-bold text-indigo-600 mb-3 uppercase flex items-center gap-2">
-                    <Icons.Database size={12} /> Global Variables
+                    <Icons.Database size={12} /> Variables
                 </h3>
                 <p className="text-[10px] text-slate-400 mb-2">Drag to inputs or click to copy</p>
                 <div className="flex flex-wrap gap-2">
@@ -104,11 +112,14 @@ export const Sidebar: React.FC<SidebarProps> = ({ availableVariables = [] }) =>
                             draggable
                             onDragStart={(e) => handleDragStartVariable(e, v.name)}
                             onClick={() => handleCopyVariable(v.name)}
-                            title={`Type: ${v.type}`}
+                            title={`Type: ${v.type}${v.scope ? `\nScope: ${SCOPE_LABELS[v.scope].description}` : ''}`}
                             className={`px-2 py-1 border rounded text-xs font-mono transition-colors flex items-center gap-1 group cursor-grab active:cursor-grabbing ${getTypeStyles(v.type)}`}
                         >
                             {getTypeIcon(v.type)}
                             <span className="font-bold">{v.name}</span>
+                            {v.scope && v.scope !== 'global' && (
+                                <span className="text-[9px] px-1 rounded bg-white/70 border border-current opacity-70">{SCOPE_LABELS[v.scope].label}</span>
+                            )}
                             <Icons.Copy size={10} className="opacity-0 group-hover:opacity-100 ml-1" />
                         </div>
                     ))}
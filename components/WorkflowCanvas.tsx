@@ -1,7 +1,9 @@
 import React, { useState, useRef, useEffect, useCallback } from 'react';
-import { Node, Edge, NodeType, NodeData } from '../types';
-import { Node as NodeComponent } from './Node';
+import { Node, Edge, NodeType, NodeData, ValidationIssue, getEdgeSourceHandle } from '../types';
+import { Node as NodeComponent, NODE_WIDTH, HANDLE_TOP, getSourceHandleY } from './Node';
 import { ConnectionLine } from './ConnectionLine';
+import { getLocalTimeZone } from '../services/cronSchedule';
+import { SavedWorkflowSummary } from '../services/workflowLibrary';
 import * as Icons from 'lucide-react';
 
 interface WorkflowCanvasProps {
@@ -13,6 +15,9 @@ interface WorkflowCanvasProps {
   onNodeChange: (nodeId: string, data: any) => void;
   onNodeDelete: (nodeId: string) => void;
   selectedNodeId: string | null;
+  validationIssues?: ValidationIssue[];
+  onNodeRun?: (nodeId: string, mode: 'from' | 'only') => void;
+  savedWorkflows?: SavedWorkflowSummary[]; // Choices for sub-workflow nodes
 }
 
 export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
@@ -24,6 +29,9 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   onNodeChange,
   onNodeDelete,
   selectedNodeId,
+  validationIssues = [],
+  onNodeRun,
+  savedWorkflows = [],
 }) => {
   const [scale, setScale] = useState(1);
   const [pan, setPan] = useState({ x: 0, y: 0 });
@@ -37,7 +45,7 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
   const [lastPanPosition, setLastPanPosition] = useState({ x: 0, y: 0 });
 
   // Connecting State
-  const [connectingSource, setConnectingSource] = useState<{ nodeId: string, x: number, y: number } | null>(null);
+  const [connectingSource, setConnectingSource] = useState<{ nodeId: string, handle?: string, x: number, y: number } | null>(null);
   const [mousePos, setMousePos] = useState({ x: 0, y: 0 });
 
   const canvasRef = useRef<HTMLDivElement>(null);
@@ -64,9 +72,16 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
       type,
       position: { x: coords.x - 128, y: coords.y - 40 }, // Center-ish
       data: {
-        label: type === 'webhook' ? 'Start Trigger' : `New ${type}`,
+        label: type === 'webhook' ? 'Start Trigger' : type === 'schedule' ? 'Schedule Trigger' : `New ${type}`,
         description: 'Configure this block.',
-        status: 'idle'
+        status: 'idle',
+        ...(type === 'schedule' ? {
+          scheduleCron: '0 9 * * *',
+          scheduleTimezone: getLocalTimeZone(),
+          scheduleMissedRuns: 'run-once',
+          outputVariableName: 'trigger_data',
+          outputMappings: [{ field: 'scheduledTime', variable: 'trigger_time' }]
+        } : {})
       }
     };
 
@@ -105,16 +120,16 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
     }
   };
 
-  const handleHandleMouseDown = (e: React.MouseEvent, nodeId: string, type: 'source' | 'target') => {
+  const handleHandleMouseDown = (e: React.MouseEvent, nodeId: string, type: 'source' | 'target', handle?: string) => {
     e.stopPropagation();
     if (type === 'source') {
         const node = nodes.find(n => n.id === nodeId);
         if (node) {
             // Calculate absolute position of the handle
-            // Node width is w-96 (24rem = 384px), Handle is centered vertically relative to header
-            const handleX = node.position.x + 384; 
-            const handleY = node.position.y + 28; // Header center approx
-            setConnectingSource({ nodeId, x: handleX, y: handleY });
+            // Node width is w-96 (24rem = 384px), named handles are stacked below the header center
+            const handleX = node.position.x + NODE_WIDTH; 
+            const handleY = node.position.y + getSourceHandleY(node, handle);
+            setConnectingSource({ nodeId, handle, x: handleX, y: handleY });
             
             const coords = getCanvasCoordinates(e.clientX, e.clientY);
             setMousePos(coords);
@@ -162,18 +177,21 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
             if (n.id === connectingSource.nodeId) return false;
             // Target handle detection
             const handleX = n.position.x;
-            const handleY = n.position.y + 28; // Header center
+            const handleY = n.position.y + HANDLE_TOP; // Header center
             const dist = Math.sqrt(Math.pow(coords.x - handleX, 2) + Math.pow(coords.y - handleY, 2));
             return dist < 30; // 30px radius tolerance
         });
 
         if (targetNode) {
+            const handleSuffix = connectingSource.handle ? `-${connectingSource.handle}` : '';
             const newEdge: Edge = {
-                id: `e-${connectingSource.nodeId}-${targetNode.id}`,
+                id: `e-${connectingSource.nodeId}${handleSuffix}-${targetNode.id}`,
                 source: connectingSource.nodeId,
-                target: targetNode.id
+                target: targetNode.id,
+                sourceHandle: connectingSource.handle
             };
-            onEdgesChange([...edges, newEdge]);
+            // Replace an identical connection instead of drawing it twice
+            onEdgesChange([...edges.filter(e => e.id !== newEdge.id), newEdge]);
         }
 
         setConnectingSource(null);
@@ -224,10 +242,10 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                     return (
                         <ConnectionLine 
                             key={edge.id}
-                            x1={sourceNode.position.x + 384} // Width of node (w-96)
-                            y1={sourceNode.position.y + 28} // Header center
+                            x1={sourceNode.position.x + NODE_WIDTH} // Width of node (w-96)
+                            y1={sourceNode.position.y + getSourceHandleY(sourceNode, getEdgeSourceHandle(edge, sourceNode))}
                             x2={targetNode.position.x}
-                            y2={targetNode.position.y + 28}
+                            y2={targetNode.position.y + HANDLE_TOP}
                         />
                     );
                 })}
@@ -252,6 +270,9 @@ export const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({
                     onHandleMouseDown={handleHandleMouseDown}
                     onChange={onNodeChange}
                     onDelete={onNodeDelete}
+                    issues={validationIssues.filter(i => i.nodeId === node.id)}
+                    onRun={onNodeRun}
+                    savedWorkflows={savedWorkflows}
                 />
             ))}
         </div>
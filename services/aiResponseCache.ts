@@ -0,0 +1,61 @@
+import { AiRequest } from './geminiService';
+import { AI_RESPONSES_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+/**
+ * Storage for AI responses keyed by a hash of the request that produced them.
+ * The engine only consults it for nodes with `useCache` set.
+ */
+export interface AiResponseCache {
+    get(key: string): Promise<any | undefined>;
+    set(key: string, output: any): Promise<void>;
+}
+
+interface CachedResponse {
+    key: string;
+    output: any;
+    createdAt: number;
+}
+
+/**
+ * SHA-256 of the fully resolved request (model, prompt with context, inputs and
+ * config), as hex. Object keys are sorted so equal requests always hash the same.
+ */
+export const getRequestKey = async (request: AiRequest): Promise<string> => {
+    const canonical = JSON.stringify(request, (key, value) =>
+        value && typeof value === 'object' && !Array.isArray(value)
+            ? Object.fromEntries(Object.keys(value).sort().map(k => [k, value[k]]))
+            : value
+    );
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonical));
+    return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * The browser's cache, kept in IndexedDB across sessions.
+ */
+export const indexedDbResponseCache: AiResponseCache = {
+    async get(key) {
+        const db = await openDatabase();
+        const entry = await requestToPromise<CachedResponse | undefined>(db.transaction(AI_RESPONSES_STORE).objectStore(AI_RESPONSES_STORE).get(key));
+        return entry?.output;
+    },
+    async set(key, output) {
+        const db = await openDatabase();
+        const tx = db.transaction(AI_RESPONSES_STORE, 'readwrite');
+        const entry: CachedResponse = { key, output, createdAt: Date.now() };
+        tx.objectStore(AI_RESPONSES_STORE).put(entry);
+        await transactionDone(tx);
+    }
+};
+
+export const countCachedResponses = async (): Promise<number> => {
+    const db = await openDatabase();
+    return requestToPromise(db.transaction(AI_RESPONSES_STORE).objectStore(AI_RESPONSES_STORE).count());
+};
+
+export const clearResponseCache = async (): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(AI_RESPONSES_STORE, 'readwrite');
+    tx.objectStore(AI_RESPONSES_STORE).clear();
+    await transactionDone(tx);
+};
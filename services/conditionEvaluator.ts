@@ -0,0 +1,329 @@
+/**
+ * Small expression evaluator used by Condition (If / Else) nodes.
+ *
+ * Supported syntax:
+ *   - Variable references: `score`, `trigger_data.user.name`, `items[0]`, `{{score}}`
+ *     (`input` refers to the data passed in from the previous node)
+ *   - Placeholder filters: `{{ tags | length }} > 2`, `{{ name | lower }} == 'bob'`
+ *   - Literals: numbers, 'single' or "double" quoted strings, true, false, null
+ *   - Comparisons: ==, !=, >, <, >=, <=
+ *   - Text / list checks: `a contains b`, `a not contains b`, `a is empty`, `a is not empty`
+ *   - Boolean operators: &&, ||, ! (or `and`, `or`, `not`) and parentheses
+ */
+
+import { TemplateFilter, parseTemplateExpression, applyFilters } from './templateExpressions';
+
+type Token =
+    | { kind: 'value'; value: any }
+    | { kind: 'path'; path: string; filters?: TemplateFilter[] }
+    | { kind: 'op'; op: string };
+
+export interface ConditionContext {
+    variables: Record<string, any>;
+    input?: any;
+}
+
+const KEYWORD_OPS = ['and', 'or', 'not', 'contains', 'is', 'empty'];
+const SYMBOL_OPS = ['===', '!==', '==', '!=', '>=', '<=', '&&', '||', '>', '<', '!', '(', ')'];
+
+const tokenize = (expression: string): Token[] => {
+    const tokens: Token[] = [];
+    let i = 0;
+
+    const lastIsValue = () => {
+        const last = tokens[tokens.length - 1];
+        return !!last && (last.kind !== 'op' || last.op === ')' || last.op === 'empty');
+    };
+
+    while (i < expression.length) {
+        const char = expression[i];
+
+        if (/\s/.test(char)) {
+            i++;
+            continue;
+        }
+
+        // {{ variable | filter }} placeholders are variable references with optional filters
+        if (expression.startsWith('{{', i)) {
+            const end = expression.indexOf('}}', i);
+            if (end === -1) throw new Error(`Unclosed '{{' in condition at position ${i}`);
+            const { path, filters } = parseTemplateExpression(expression.substring(i + 2, end));
+            tokens.push({ kind: 'path', path, filters });
+            i = end + 2;
+            continue;
+        }
+
+        if (char === '"' || char === "'") {
+            let value = '';
+            let j = i + 1;
+            while (j < expression.length && expression[j] !== char) {
+                if (expression[j] === '\\' && j + 1 < expression.length) j++;
+                value += expression[j];
+                j++;
+            }
+            if (j >= expression.length) throw new Error(`Unterminated string in condition at position ${i}`);
+            tokens.push({ kind: 'value', value });
+            i = j + 1;
+            continue;
+        }
+
+        const numberMatch = expression.slice(i).match(/^-?\d+(\.\d+)?/);
+        if (numberMatch && (char !== '-' || !lastIsValue())) {
+            tokens.push({ kind: 'value', value: parseFloat(numberMatch[0]) });
+            i += numberMatch[0].length;
+            continue;
+        }
+
+        const symbol = SYMBOL_OPS.find(op => expression.startsWith(op, i));
+        if (symbol) {
+            const normalized = symbol === '===' ? '==' : symbol === '!==' ? '!=' : symbol;
+            tokens.push({ kind: 'op', op: normalized });
+            i += symbol.length;
+            continue;
+        }
+
+        const wordMatch = expression.slice(i).match(/^[a-zA-Z_$][\w$\-]*(\.[\w$\-]+|\[\d+\])*/);
+        if (wordMatch) {
+            const word = wordMatch[0];
+            const lower = word.toLowerCase();
+            if (KEYWORD_OPS.includes(lower)) {
+                tokens.push({ kind: 'op', op: lower });
+            } else if (lower === 'true' || lower === 'false') {
+                tokens.push({ kind: 'value', value: lower === 'true' });
+            } else if (lower === 'null' || lower === 'undefined') {
+                tokens.push({ kind: 'value', value: null });
+            } else {
+                tokens.push({ kind: 'path', path: word });
+            }
+            i += word.length;
+            continue;
+        }
+
+        throw new Error(`Unexpected character '${char}' in condition at position ${i}`);
+    }
+
+    return tokens;
+};
+
+/**
+ * Reads a dotted / indexed path (e.g. `user.tags[0]`) from the context.
+ * Unknown variables resolve to undefined so they can be checked with `is empty`.
+ * Also used by Loop nodes to locate the array they iterate over.
+ */
+export const resolvePath = (path: string, context: ConditionContext): any => {
+    const segments = path.replace(/\[(\d+)\]/g, '.$1').split('.').filter(Boolean);
+    if (segments.length === 0) return undefined;
+
+    const [head, ...rest] = segments;
+    let current: any = head === 'input' && !context.variables.hasOwnProperty('input')
+        ? context.input
+        : context.variables[head];
+
+    for (const segment of rest) {
+        if (current === null || current === undefined) return undefined;
+        if (typeof current === 'string') {
+            try {
+                current = JSON.parse(current);
+            } catch {
+                return undefined;
+            }
+        }
+        current = current[segment];
+    }
+    return current;
+};
+
+const isEmpty = (value: any): boolean => {
+    if (value === null || value === undefined) return true;
+    if (typeof value === 'string') return value.trim() === '';
+    if (Array.isArray(value)) return value.length === 0;
+    if (typeof value === 'object') return Object.keys(value).length === 0;
+    return false;
+};
+
+const toNumber = (value: any): number | null => {
+    if (typeof value === 'number') return value;
+    if (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    return null;
+};
+
+/**
+ * Converts a value to a boolean, treating the strings "false", "0" and "" as false
+ * since AI and webhook outputs usually carry booleans as text.
+ */
+export const toBoolean = (value: any): boolean => {
+    if (typeof value === 'string') {
+        const normalized = value.trim().toLowerCase();
+        return normalized !== '' && normalized !== 'false' && normalized !== '0';
+    }
+    if (Array.isArray(value)) return value.length > 0;
+    return Boolean(value);
+};
+
+const looseEquals = (a: any, b: any): boolean => {
+    if (a === b) return true;
+    if (a === null || a === undefined || b === null || b === undefined) {
+        return (a === null || a === undefined) && (b === null || b === undefined);
+    }
+    if (typeof a === 'boolean' || typeof b === 'boolean') {
+        return toBoolean(a) === toBoolean(b);
+    }
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (numA !== null && numB !== null) return numA === numB;
+    if (typeof a === 'object' || typeof b === 'object') {
+        const strA = typeof a === 'object' ? JSON.stringify(a) : String(a);
+        const strB = typeof b === 'object' ? JSON.stringify(b) : String(b);
+        return strA === strB;
+    }
+    return String(a) === String(b);
+};
+
+const compare = (a: any, b: any): number => {
+    const numA = toNumber(a);
+    const numB = toNumber(b);
+    if (numA !== null && numB !== null) return numA - numB;
+    return String(a ?? '').localeCompare(String(b ?? ''));
+};
+
+const contains = (haystack: any, needle: any): boolean => {
+    if (haystack === null || haystack === undefined) return false;
+    if (Array.isArray(haystack)) return haystack.some(item => looseEquals(item, needle));
+    if (typeof haystack === 'object') return Object.prototype.hasOwnProperty.call(haystack, String(needle));
+    return String(haystack).includes(String(needle));
+};
+
+class Parser {
+    private pos = 0;
+
+    constructor(private tokens: Token[], private context: ConditionContext) {}
+
+    parse(): any {
+        const value = this.parseOr();
+        if (this.pos < this.tokens.length) {
+            throw new Error(`Unexpected token '${this.describe(this.tokens[this.pos])}' in condition`);
+        }
+        return value;
+    }
+
+    private peekOp(...ops: string[]): boolean {
+        const token = this.tokens[this.pos];
+        return !!token && token.kind === 'op' && ops.includes(token.op);
+    }
+
+    private expectOp(op: string) {
+        if (!this.peekOp(op)) {
+            const token = this.tokens[this.pos];
+            throw new Error(`Expected '${op}' in condition but found ${token ? `'${this.describe(token)}'` : 'end of expression'}`);
+        }
+        this.pos++;
+    }
+
+    private describe(token: Token): string {
+        if (token.kind === 'op') return token.op;
+        if (token.kind === 'path') return token.path;
+        return JSON.stringify(token.value);
+    }
+
+    private parseOr(): any {
+        let left = this.parseAnd();
+        while (this.peekOp('||', 'or')) {
+            this.pos++;
+            const right = this.parseAnd();
+            left = toBoolean(left) || toBoolean(right);
+        }
+        return left;
+    }
+
+    private parseAnd(): any {
+        let left = this.parseNot();
+        while (this.peekOp('&&', 'and')) {
+            this.pos++;
+            const right = this.parseNot();
+            left = toBoolean(left) && toBoolean(right);
+        }
+        return left;
+    }
+
+    private parseNot(): any {
+        if (this.peekOp('!', 'not')) {
+            this.pos++;
+            return !toBoolean(this.parseNot());
+        }
+        return this.parseComparison();
+    }
+
+    private parseComparison(): any {
+        const left = this.parseOperand();
+
+        if (this.peekOp('is')) {
+            this.pos++;
+            const negate = this.peekOp('not');
+            if (negate) this.pos++;
+            this.expectOp('empty');
+            return negate ? !isEmpty(left) : isEmpty(left);
+        }
+
+        if (this.peekOp('not')) {
+            // `a not contains b`
+            this.pos++;
+            this.expectOp('contains');
+            return !contains(left, this.parseOperand());
+        }
+
+        if (this.peekOp('contains')) {
+            this.pos++;
+            return contains(left, this.parseOperand());
+        }
+
+        if (this.peekOp('==', '!=', '>', '<', '>=', '<=')) {
+            const op = (this.tokens[this.pos] as { op: string }).op;
+            this.pos++;
+            const right = this.parseOperand();
+            switch (op) {
+                case '==': return looseEquals(left, right);
+                case '!=': return !looseEquals(left, right);
+                case '>': return compare(left, right) > 0;
+                case '<': return compare(left, right) < 0;
+                case '>=': return compare(left, right) >= 0;
+                case '<=': return compare(left, right) <= 0;
+            }
+        }
+
+        return left;
+    }
+
+    private parseOperand(): any {
+        const token = this.tokens[this.pos];
+        if (!token) throw new Error('Unexpected end of condition');
+
+        if (token.kind === 'op') {
+            if (token.op === '(') {
+                this.pos++;
+                const value = this.parseOr();
+                this.expectOp(')');
+                return value;
+            }
+            if (token.op === '!' || token.op === 'not') {
+                return this.parseNot();
+            }
+            throw new Error(`Unexpected operator '${token.op}' in condition`);
+        }
+
+        this.pos++;
+        if (token.kind === 'path') return applyFilters(resolvePath(token.path, this.context), token.filters || []);
+        return token.value;
+    }
+}
+
+/**
+ * Evaluates a condition expression against the variable store and node input.
+ * An empty expression falls back to the truthiness of the input itself.
+ */
+export const evaluateCondition = (expression: string, context: ConditionContext): boolean => {
+    if (!expression || expression.trim() === '') {
+        return toBoolean(context.input);
+    }
+    const tokens = tokenize(expression);
+    return toBoolean(new Parser(tokens, context).parse());
+};
@@ -0,0 +1,126 @@
+import { Node, Edge, ModelPrice, TokenUsage, AiNodeType, DEFAULT_AI_MODELS, getEdgeSourceHandle, isOutputPinned, isTriggerType } from '../types';
+import { AiRequest } from './geminiService';
+
+/**
+ * List prices per million tokens when this table was written. Workflows can
+ * override them (and price other models) in their execution settings.
+ */
+export const DEFAULT_MODEL_PRICES: Record<string, ModelPrice> = {
+    'gemini-2.5-flash': { inputPerMillion: 0.3, outputPerMillion: 2.5 },
+    'gemini-2.5-flash-lite-latest': { inputPerMillion: 0.1, outputPerMillion: 0.4 },
+    'gemini-3-pro-preview': { inputPerMillion: 2, outputPerMillion: 12 },
+    'gemini-2.5-flash-image': { inputPerMillion: 0.3, outputPerMillion: 30, imageOutputTokens: 1290 },
+    'gemini-3-pro-image-preview': { inputPerMillion: 2, outputPerMillion: 120, imageOutputTokens: 1120 },
+};
+
+// Rough sizes used for estimates; actual costs use the usage Gemini reports
+const CHARS_PER_TOKEN = 4;
+const IMAGE_INPUT_TOKENS = 1032; // A ~1024px image, tiled into 4 × 258 tokens
+const DEFAULT_TEXT_OUTPUT_TOKENS = 1000; // When the node sets no maxOutputTokens
+
+export interface CostEstimate {
+    model: string;
+    inputTokens: number;
+    outputTokens: number;
+    costUsd: number;
+    priced: boolean; // False when the model is missing from the price table (cost counted as 0)
+}
+
+export interface NodeCostEstimate extends CostEstimate {
+    nodeId: string;
+    perIteration: boolean; // Inside a loop body: runs once per item, which isn't known before the run
+}
+
+export interface WorkflowCostEstimate {
+    nodes: NodeCostEstimate[];
+    totalUsd: number; // Nodes inside loops counted once
+    unpricedModels: string[];
+}
+
+export const getModelPrice = (model: string, prices?: Record<string, ModelPrice>): ModelPrice | undefined => {
+    return prices?.[model] ?? DEFAULT_MODEL_PRICES[model];
+};
+
+const priceTokens = (model: string, inputTokens: number, outputTokens: number, prices?: Record<string, ModelPrice>): CostEstimate => {
+    const price = getModelPrice(model, prices);
+    const costUsd = price ? (inputTokens * price.inputPerMillion + outputTokens * price.outputPerMillion) / 1e6 : 0;
+    return { model, inputTokens, outputTokens, costUsd, priced: !!price };
+};
+
+/**
+ * What a Gemini response actually cost, from the usage it reported.
+ */
+export const costOfUsage = (model: string, usage: TokenUsage, prices?: Record<string, ModelPrice>): number => {
+    return priceTokens(model, usage.promptTokens, usage.candidatesTokens, prices).costUsd;
+};
+
+const expectedOutputTokens = (model: string, maxOutputTokens: number | undefined, prices?: Record<string, ModelPrice>): number => {
+    return getModelPrice(model, prices)?.imageOutputTokens ?? maxOutputTokens ?? DEFAULT_TEXT_OUTPUT_TOKENS;
+};
+
+/**
+ * Expected cost of a fully built request, checked against the run budget before it is sent.
+ */
+export const estimateRequestCost = (request: AiRequest, prices?: Record<string, ModelPrice>): CostEstimate => {
+    const inputTokens = request.contents.parts.reduce((sum, part) =>
+        sum + (part.inlineData ? IMAGE_INPUT_TOKENS : Math.ceil((part.text?.length ?? 0) / CHARS_PER_TOKEN)), 0);
+    return priceTokens(request.model, inputTokens, expectedOutputTokens(request.model, request.config.maxOutputTokens, prices), prices);
+};
+
+/**
+ * Expected cost of an AI node before the run, from its prompt as written and its
+ * image inputs. Placeholders and the context passed on by previous steps are unknown
+ * at this point, so they are not counted.
+ */
+export const estimateNodeCost = (node: Node, prices?: Record<string, ModelPrice>): CostEstimate => {
+    const model = node.data.model || DEFAULT_AI_MODELS[node.type as AiNodeType];
+    const imageCount = node.data.inputs?.length || (node.data.inputImage || node.data.inputImageVariable ? 1 : 0);
+    const inputTokens = Math.ceil((node.data.prompt?.length ?? 0) / CHARS_PER_TOKEN) + imageCount * IMAGE_INPUT_TOKENS;
+    return priceTokens(model, inputTokens, expectedOutputTokens(model, node.data.maxOutputTokens, prices), prices);
+};
+
+// Ids of the nodes reachable from the given ones, not walking back into the stop node
+const reachableFrom = (startIds: string[], edges: Edge[], stopId?: string): Set<string> => {
+    const reached = new Set<string>();
+    const stack = [...startIds];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (reached.has(id) || id === stopId) continue;
+        reached.add(id);
+        edges.filter(e => e.source === id).forEach(e => stack.push(e.target));
+    }
+    return reached;
+};
+
+/**
+ * Estimates the AI cost of running a workflow: every AI node reachable from the
+ * trigger, except those with a pinned output.
+ */
+export const estimateWorkflowCost = (nodes: Node[], edges: Edge[], prices?: Record<string, ModelPrice>): WorkflowCostEstimate => {
+    const trigger = nodes.find(n => isTriggerType(n.type));
+    const reachable = trigger ? reachableFrom([trigger.id], edges) : new Set<string>();
+
+    const inLoops = new Set<string>();
+    nodes.filter(n => n.type === 'loop').forEach(loop => {
+        const bodyTargets = edges.filter(e => e.source === loop.id && getEdgeSourceHandle(e, loop) === 'body').map(e => e.target);
+        reachableFrom(bodyTargets, edges, loop.id).forEach(id => inLoops.add(id));
+    });
+
+    const estimates = nodes
+        .filter(n => (n.type === 'ai-text' || n.type === 'ai-image') && reachable.has(n.id) && !isOutputPinned(n))
+        .map(n => ({ nodeId: n.id, perIteration: inLoops.has(n.id), ...estimateNodeCost(n, prices) }));
+
+    return {
+        nodes: estimates,
+        totalUsd: estimates.reduce((sum, e) => sum + e.costUsd, 0),
+        unpricedModels: Array.from(new Set(estimates.filter(e => !e.priced).map(e => e.model)))
+    };
+};
+
+/**
+ * Dollar amounts with enough precision for single requests, e.g. $0.0039 or $1.25.
+ */
+export const formatCost = (usd: number): string => {
+    if (usd === 0) return '$0';
+    return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+};
@@ -0,0 +1,240 @@
+/**
+ * Standard 5-field cron expressions (minute hour day-of-month month day-of-week),
+ * evaluated in an IANA time zone.
+ *
+ * Fields accept `*`, numbers, ranges (`1-5`), steps (`*\/15`, `0-30/10`), lists
+ * (`1,15`) and month / weekday names (`JAN`, `MON`). Sunday is 0 or 7. As in
+ * classic cron, when both day fields are restricted a day matching either fires.
+ * Shortcuts: @yearly (@annually), @monthly, @weekly, @daily (@midnight), @hourly.
+ */
+
+export interface CronSchedule {
+    expression: string;
+    minutes: Set<number>;
+    hours: Set<number>;
+    daysOfMonth: Set<number>;
+    months: Set<number>; // 1-12
+    daysOfWeek: Set<number>; // 0-6, Sunday = 0
+    anyDayOfMonth: boolean;
+    anyDayOfWeek: boolean;
+}
+
+const SHORTCUTS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+    name: string;
+    min: number;
+    max: number;
+    names?: string[];
+    namesStart?: number; // Value of the first name
+}
+
+const FIELDS: FieldSpec[] = [
+    { name: 'minute', min: 0, max: 59 },
+    { name: 'hour', min: 0, max: 23 },
+    { name: 'day of month', min: 1, max: 31 },
+    { name: 'month', min: 1, max: 12, names: MONTH_NAMES, namesStart: 1 },
+    { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, namesStart: 0 },
+];
+
+const parseValue = (text: string, spec: FieldSpec): number => {
+    const nameIndex = spec.names?.indexOf(text.toUpperCase()) ?? -1;
+    const value = nameIndex >= 0 ? nameIndex + spec.namesStart! : /^\d+$/.test(text) ? Number(text) : NaN;
+    if (isNaN(value) || value < spec.min || value > spec.max) {
+        throw new Error(`Invalid ${spec.name} '${text}' (expected ${spec.min}-${spec.max}${spec.names ? ' or a name' : ''}).`);
+    }
+    return value;
+};
+
+const parseField = (text: string, spec: FieldSpec): Set<number> => {
+    const values = new Set<number>();
+    for (const part of text.split(',')) {
+        const [range, stepText] = part.split('/');
+        const step = stepText === undefined ? 1 : Number(stepText);
+        if (!Number.isInteger(step) || step < 1) throw new Error(`Invalid step '${stepText}' in ${spec.name}.`);
+
+        let start: number;
+        let end: number;
+        if (range === '*') {
+            start = spec.min;
+            end = spec.max;
+        } else if (range.includes('-')) {
+            const [from, to] = range.split('-');
+            start = parseValue(from, spec);
+            end = parseValue(to, spec);
+            if (start > end) throw new Error(`Invalid range '${range}' in ${spec.name}.`);
+        } else {
+            start = parseValue(range, spec);
+            // `5/15` means every 15 starting at 5
+            end = stepText === undefined ? start : spec.max;
+        }
+        for (let v = start; v <= end; v += step) values.add(v);
+    }
+    return values;
+};
+
+/**
+ * Parses a cron expression, throwing an Error describing the first problem found.
+ */
+export const parseCron = (expression: string): CronSchedule => {
+    const trimmed = expression.trim();
+    const fields = (SHORTCUTS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+    if (fields.length !== 5 || fields[0] === '') {
+        throw new Error(`Expected 5 fields (minute hour day-of-month month day-of-week), got ${fields[0] === '' ? 0 : fields.length}.`);
+    }
+
+    const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+    // 7 is another way to write Sunday
+    if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+    return {
+        expression: trimmed,
+        minutes,
+        hours,
+        daysOfMonth,
+        months,
+        daysOfWeek,
+        anyDayOfMonth: fields[2] === '*',
+        anyDayOfWeek: fields[4] === '*'
+    };
+};
+
+/**
+ * Returns null when the expression is valid, else why it isn't.
+ */
+export const getCronError = (expression: string): string | null => {
+    try {
+        parseCron(expression);
+        return null;
+    } catch (e: any) {
+        return e.message;
+    }
+};
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat('en-US', { timeZone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+// The zone the app or runner is in, used for schedules without one
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+
+// IANA zones the runtime knows, for pickers
+export const listTimeZones = (): string[] => typeof Intl.supportedValuesOf === 'function' ? Intl.supportedValuesOf('timeZone') : [];
+
+/**
+ * A fire time as wall-clock time in the schedule's zone, e.g. "Mon, Oct 19, 09:00".
+ */
+export const formatFireTime = (time: number, timeZone: string): string => {
+    return new Intl.DateTimeFormat(undefined, { timeZone, weekday: 'short', month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit', hourCycle: 'h23' }).format(time);
+};
+
+interface ZonedTime {
+    month: number;
+    day: number;
+    weekday: number;
+    hour: number;
+    minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZonedTime = (time: number, timeZone: string): ZonedTime => {
+    let formatter = formatters.get(timeZone);
+    if (!formatter) {
+        formatter = new Intl.DateTimeFormat('en-US', {
+            timeZone,
+            hourCycle: 'h23',
+            month: 'numeric',
+            day: 'numeric',
+            weekday: 'short',
+            hour: 'numeric',
+            minute: 'numeric'
+        });
+        formatters.set(timeZone, formatter);
+    }
+    const parts: Record<string, string> = {};
+    formatter.formatToParts(time).forEach(p => parts[p.type] = p.value);
+    return {
+        month: Number(parts.month),
+        day: Number(parts.day),
+        weekday: DAY_NAMES.indexOf(parts.weekday.toUpperCase()),
+        hour: Number(parts.hour),
+        minute: Number(parts.minute)
+    };
+};
+
+const matchesDay = (schedule: CronSchedule, t: ZonedTime): boolean => {
+    if (!schedule.months.has(t.month)) return false;
+    const dayOfMonth = schedule.daysOfMonth.has(t.day);
+    const dayOfWeek = schedule.daysOfWeek.has(t.weekday);
+    if (schedule.anyDayOfMonth || schedule.anyDayOfWeek) return dayOfMonth && dayOfWeek;
+    return dayOfMonth || dayOfWeek;
+};
+
+const MINUTE = 60000;
+const MAX_SEARCH_STEPS = 100000; // Several years of day / hour skips
+
+/**
+ * The first time strictly after `after` (ms) that the schedule fires, or null if it
+ * never does (e.g. February 30th).
+ */
+export const getNextFireTime = (schedule: CronSchedule, timeZone: string, after: number): number | null => {
+    let time = Math.floor(after / MINUTE) * MINUTE + MINUTE;
+
+    // Walks forward in UTC, skipping whole days and hours that can't match. Skips stop
+    // an hour short of the boundary so days shortened by DST are not jumped over.
+    // Wall times that DST skips (e.g. 02:30 when clocks go forward) don't fire.
+    for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+        const t = getZonedTime(time, timeZone);
+        if (!matchesDay(schedule, t)) {
+            const minutesToMidnight = (24 - t.hour) * 60 - t.minute;
+            time += Math.max(minutesToMidnight - 60, 60 - t.minute) * MINUTE;
+            continue;
+        }
+        if (!schedule.hours.has(t.hour)) {
+            time += (60 - t.minute) * MINUTE;
+            continue;
+        }
+        if (!schedule.minutes.has(t.minute)) {
+            const nextMinute = Array.from(schedule.minutes).filter(m => m > t.minute).sort((a, b) => a - b)[0];
+            time += ((nextMinute ?? 60) - t.minute) * MINUTE;
+            continue;
+        }
+        // When clocks go back the same wall time happens twice; fire on the first only
+        const hourBefore = getZonedTime(time - 60 * MINUTE, timeZone);
+        if (hourBefore.day === t.day && hourBefore.hour === t.hour && hourBefore.minute === t.minute) {
+            time += MINUTE;
+            continue;
+        }
+        return time;
+    }
+    return null;
+};
+
+/**
+ * The next `count` fire times after `after` (ms).
+ */
+export const getUpcomingFireTimes = (schedule: CronSchedule, timeZone: string, after: number, count: number): number[] => {
+    const times: number[] = [];
+    let time: number | null = after;
+    while (times.length < count && (time = getNextFireTime(schedule, timeZone, time)) !== null) {
+        times.push(time);
+    }
+    return times;
+};
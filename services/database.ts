@@ -0,0 +1,55 @@
+/**
+ * The app's IndexedDB database. Every store is declared here so opening the
+ * database from any module creates all of them.
+ */
+const DB_NAME = 'flowgen-ai';
+const DB_VERSION = 3;
+
+export const RUNS_STORE = 'runs';
+export const SUMMARIES_STORE = 'run-summaries';
+export const AI_RESPONSES_STORE = 'ai-responses';
+export const WORKFLOWS_STORE = 'workflows';
+
+const STORES: { name: string; keyPath: string }[] = [
+    { name: RUNS_STORE, keyPath: 'id' },
+    { name: SUMMARIES_STORE, keyPath: 'id' },
+    { name: AI_RESPONSES_STORE, keyPath: 'key' },
+    { name: WORKFLOWS_STORE, keyPath: 'name' },
+];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = () => {
+                const db = request.result;
+                STORES.forEach(store => {
+                    if (!db.objectStoreNames.contains(store.name)) db.createObjectStore(store.name, { keyPath: store.keyPath });
+                });
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+    }
+    return dbPromise;
+};
+
+export const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> => {
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const transactionDone = (tx: IDBTransaction): Promise<void> => {
+    return new Promise((resolve, reject) => {
+        tx.oncomplete = () => resolve();
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error);
+    });
+};
@@ -0,0 +1,77 @@
+import { ErrorCategory } from "../types";
+
+/**
+ * Thrown when a run is stopped by the user while a node is executing.
+ * Nodes failing with this error are marked 'cancelled' instead of 'error'.
+ */
+export class CancelledError extends Error {
+    constructor(message: string = "Workflow execution was cancelled.") {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
+
+export const isCancelledError = (error: any): boolean => {
+    return error instanceof CancelledError || error?.name === 'CancelledError';
+};
+
+/**
+ * Error raised by services (Gemini, HTTP) carrying a category that retry
+ * policies use to decide whether another attempt makes sense.
+ */
+export class ServiceError extends Error {
+    category: ErrorCategory;
+    status?: number;
+
+    constructor(message: string, category: ErrorCategory, status?: number) {
+        super(message);
+        this.name = 'ServiceError';
+        this.category = category;
+        this.status = status;
+    }
+}
+
+/**
+ * Thrown when a node attempt or the whole run exceeds its configured time limit.
+ */
+export class TimeoutError extends ServiceError {
+    constructor(message: string) {
+        super(message, 'timeout');
+        this.name = 'TimeoutError';
+    }
+}
+
+/**
+ * Thrown instead of making an AI request that would take the run past its budget.
+ * The run stops with outcome 'over-budget'.
+ */
+export class BudgetExceededError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'BudgetExceededError';
+    }
+}
+
+export const categorizeStatus = (status: number): ErrorCategory => {
+    if (status === 429) return 'rate-limit';
+    if (status === 408) return 'timeout';
+    if (status >= 500) return 'server';
+    if (status >= 400) return 'client';
+    return 'other';
+};
+
+/**
+ * Works out the category of any thrown error, using the status code when the
+ * error carries one and falling back to well-known messages otherwise.
+ */
+export const classifyError = (error: any): ErrorCategory => {
+    if (error instanceof ServiceError) return error.category;
+    if (typeof error?.status === 'number') return categorizeStatus(error.status);
+
+    const message = String(error?.message || error || '');
+    if (/\b429\b|RESOURCE_EXHAUSTED|rate limit|quota/i.test(message)) return 'rate-limit';
+    if (/\b50[0-4]\b|UNAVAILABLE|INTERNAL|overloaded/i.test(message)) return 'server';
+    if (/timed out|timeout|DEADLINE_EXCEEDED/i.test(message)) return 'timeout';
+    if (/fetch failed|network|ECONNRESET|ECONNREFUSED|ENOTFOUND/i.test(message)) return 'network';
+    return 'other';
+};
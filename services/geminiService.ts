@@ -1,4 +1,6 @@
 import { GoogleGenAI } from "@google/genai";
+import { CancelledError, ServiceError, classifyError } from "./errors";
+import { TokenUsage } from "../types";
 
 // Initialize the Gemini Client
 const getClient = () => {
@@ -79,11 +81,38 @@ const normalizeSchema = (schema: any): any => {
 };
 
 /**
- * Executes a specific node logic based on type.
- * This is used by the workflow engine.
+ * Everything sent to Gemini for a node, minus the abort signal. Two identical
+ * requests are expected to produce interchangeable responses (see aiResponseCache).
  */
-export const executeAiNode = async (nodeData: any, inputContext: string): Promise<any> => {
-    const ai = getClient();
+export interface AiRequest {
+    model: string;
+    contents: { parts: any[] };
+    config: Record<string, any>;
+}
+
+/**
+ * A node's output and the tokens Gemini reported for producing it.
+ */
+export interface AiResponse {
+    output: any;
+    usage?: TokenUsage;
+    empty?: boolean; // Nothing was generated; the output is a placeholder message
+}
+
+const toTokenUsage = (metadata: any): TokenUsage | undefined => {
+    if (!metadata) return undefined;
+    return {
+        promptTokens: metadata.promptTokenCount ?? 0,
+        candidatesTokens: metadata.candidatesTokenCount ?? 0,
+        totalTokens: metadata.totalTokenCount ?? 0
+    };
+};
+
+/**
+ * Builds the Gemini request for an AI node from its resolved data and the context
+ * passed on by the previous step.
+ */
+export const buildAiRequest = (nodeData: any, inputContext: string): AiRequest => {
     const isImageNode = nodeData.model?.includes('image') || false;
     
     // Default models based on usage
@@ -151,10 +180,25 @@ export const executeAiNode = async (nodeData: any, inputContext: string): Promis
         }
     }
 
+    return { model, contents: { parts }, config };
+};
+
+/**
+ * Executes a specific node logic based on type, returning its output with the token usage.
+ * This is used by the workflow engine. The optional signal aborts the request when the run is cancelled.
+ * A prebuilt request can be passed to avoid building it twice.
+ */
+export const executeAiNode = async (nodeData: any, inputContext: string, signal?: AbortSignal, request?: AiRequest): Promise<AiResponse> => {
+    const ai = getClient();
+    const isImageNode = nodeData.model?.includes('image') || false;
+    const { model, contents, config: requestConfig } = request || buildAiRequest(nodeData, inputContext);
+    const config: any = { ...requestConfig };
+    if (signal) config.abortSignal = signal;
+
     try {
         const response = await ai.models.generateContent({
             model: model,
-            contents: { parts },
+            contents,
             config: Object.keys(config).length > 0 ? config : undefined
         });
 
@@ -167,7 +211,10 @@ export const executeAiNode = async (nodeData: any, inputContext: string): Promis
         let outputImage = "";
 
         const candidate = response.candidates?.[0];
-        if (candidate?.content?.parts) {
+        if (!candidate) {
+            throw new ServiceError("Gemini returned no candidates (the response was empty or blocked).", 'empty-response');
+        }
+        if (candidate.content?.parts) {
             for (const part of candidate.content.parts) {
                 if (part.text) {
                     outputText += part.text;
@@ -178,38 +225,51 @@ export const executeAiNode = async (nodeData: any, inputContext: string): Promis
             }
         }
 
+        const usage = toTokenUsage(response.usageMetadata);
+
         if (isImageNode) {
             // Prioritize returning the image if it exists, otherwise text (error or description)
-            return outputImage || outputText || "No image generated.";
+            if (!outputImage && !outputText) return { output: "No image generated.", usage, empty: true };
+            return { output: outputImage || outputText, usage };
         } else {
             // If json schema was used, parse the output text back to object for better downstream usage
             if (config.responseMimeType === "application/json") {
                 try {
-                    return JSON.parse(outputText);
+                    return { output: JSON.parse(outputText), usage };
                 } catch (e) {
                     console.warn("Could not parse JSON output despite schema:", e);
                     // Fallback to raw text if parsing fails
-                    return outputText;
+                    return { output: outputText, usage };
                 }
             }
-            return outputText || "No text generated.";
+            if (!outputText) return { output: "No text generated.", usage, empty: true };
+            return { output: outputText, usage };
         }
 
     } catch (error: any) {
+        if (signal?.aborted) {
+            throw new CancelledError("Gemini request aborted.");
+        }
+        if (error instanceof ServiceError) {
+            throw error;
+        }
         console.error("Gemini API Error:", error);
         const errorMessage = error.message || error.toString();
+        // Categorized so node retry policies can tell transient failures (429, 503) apart
+        const category = classifyError(error);
 
         // Specific handling for Token Limits (Max 1M)
-        if (errorMessage.includes("token") || errorMessage.includes("exceeds")) {
-             throw new Error(`Token Limit Exceeded: The input context passed to the model is too large. Check if you are passing large images or files as text context from previous steps.`);
+        // Per-minute token quotas are rate limits, not oversized input
+        if (category !== 'rate-limit' && (errorMessage.includes("token") || errorMessage.includes("exceeds"))) {
+             throw new ServiceError(`Token Limit Exceeded: The input context passed to the model is too large. Check if you are passing large images or files as text context from previous steps.`, 'client');
         }
 
         // Specific handling for Schema Errors (INVALID_ARGUMENT often masks this)
         // Only trigger this if we actually sent a schema and it wasn't a token error
         if (errorMessage.includes("INVALID_ARGUMENT") && config.responseSchema) {
-             throw new Error(`API rejected the request. Please verify your JSON Schema matches the Gemini API requirements (e.g. use 'type': 'OBJECT' and no nulls). Details: ${errorMessage}`);
+             throw new ServiceError(`API rejected the request. Please verify your JSON Schema matches the Gemini API requirements (e.g. use 'type': 'OBJECT' and no nulls). Details: ${errorMessage}`, 'client');
         }
         
-        throw new Error(errorMessage || "Failed to execute AI request");
+        throw new ServiceError(errorMessage || "Failed to execute AI request", category, typeof error.status === 'number' ? error.status : undefined);
     }
 };
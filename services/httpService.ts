@@ -0,0 +1,155 @@
+import { HttpMethod, KeyValuePair } from "../types";
+import { CancelledError, ServiceError, categorizeStatus } from "./errors";
+
+export interface HttpRequest {
+    url: string;
+    method: HttpMethod;
+    headers?: KeyValuePair[];
+    queryParams?: KeyValuePair[];
+    body?: string;
+    failOnError?: boolean;
+    signal?: AbortSignal; // Aborts the request when the run is cancelled
+}
+
+export interface HttpResponse {
+    status: number;
+    statusText: string;
+    ok: boolean;
+    headers: Record<string, string>;
+    body: any;
+}
+
+// Allows swapping the transport, e.g. to point tests at a local stand-in server
+export type FetchLike = (input: string, init?: RequestInit) => Promise<Response>;
+
+const METHODS_WITHOUT_BODY: HttpMethod[] = ['GET', 'HEAD'];
+
+const arrayBufferToBase64 = (buffer: ArrayBuffer): string => {
+    const bytes = new Uint8Array(buffer);
+    const chunkSize = 0x8000;
+    let binary = '';
+    // Chunked to avoid call stack limits on large images
+    for (let i = 0; i < bytes.length; i += chunkSize) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+    }
+    return btoa(binary);
+};
+
+const isTextContentType = (contentType: string) => {
+    return contentType.startsWith('text/')
+        || contentType.includes('xml')
+        || contentType.includes('javascript')
+        || contentType.includes('x-www-form-urlencoded');
+};
+
+/**
+ * Parses a response body based on its content-type.
+ * JSON is parsed, text is returned as-is and binary payloads (images, files)
+ * become Data URLs so they can be fed straight into AI image inputs.
+ */
+const parseResponseBody = async (response: Response, method: HttpMethod): Promise<any> => {
+    if (method === 'HEAD' || response.status === 204) return null;
+
+    const contentType = (response.headers.get('content-type') || '').toLowerCase();
+
+    if (contentType.includes('json')) {
+        const text = await response.text();
+        if (!text) return null;
+        try {
+            return JSON.parse(text);
+        } catch {
+            console.warn("Response declared JSON but could not be parsed, returning raw text.");
+            return text;
+        }
+    }
+
+    if (!contentType || isTextContentType(contentType)) {
+        return response.text();
+    }
+
+    const mimeType = contentType.split(';')[0].trim();
+    const buffer = await response.arrayBuffer();
+    return `data:${mimeType};base64,${arrayBufferToBase64(buffer)}`;
+};
+
+const buildUrl = (url: string, queryParams: KeyValuePair[] = []): string => {
+    const params = queryParams.filter(p => p.key && p.key.trim() !== '');
+    if (params.length === 0) return url;
+
+    let parsed: URL;
+    try {
+        parsed = new URL(url);
+    } catch {
+        throw new Error(`Invalid URL: '${url}'. Use an absolute URL such as https://api.example.com/data`);
+    }
+    params.forEach(p => parsed.searchParams.append(p.key.trim(), p.value));
+    return parsed.toString();
+};
+
+/**
+ * Performs the HTTP request configured on an API node.
+ * Non-2xx responses throw unless failOnError is explicitly disabled.
+ */
+export const executeHttpRequest = async (request: HttpRequest, fetchImpl: FetchLike = fetch): Promise<HttpResponse> => {
+    if (!request.url || request.url.trim() === '') {
+        throw new Error("API node has no URL configured.");
+    }
+
+    const method = request.method || 'GET';
+    const url = buildUrl(request.url.trim(), request.queryParams);
+
+    const headers: Record<string, string> = {};
+    (request.headers || []).forEach(h => {
+        if (h.key && h.key.trim() !== '') headers[h.key.trim()] = h.value;
+    });
+    const hasContentType = Object.keys(headers).some(k => k.toLowerCase() === 'content-type');
+
+    const init: RequestInit = { method, headers, signal: request.signal };
+
+    if (request.body && request.body.trim() !== '' && !METHODS_WITHOUT_BODY.includes(method)) {
+        init.body = request.body;
+        if (!hasContentType) {
+            // Default to JSON when the body parses as JSON, plain text otherwise
+            let isJson = true;
+            try {
+                JSON.parse(request.body);
+            } catch {
+                isJson = false;
+            }
+            headers['Content-Type'] = isJson ? 'application/json' : 'text/plain';
+        }
+    }
+
+    let response: Response;
+    try {
+        response = await fetchImpl(url, init);
+    } catch (error: any) {
+        if (request.signal?.aborted) throw new CancelledError(`Request to ${url} aborted.`);
+        throw new ServiceError(`Request to ${url} failed: ${error.message || error}`, 'network');
+    }
+
+    const responseHeaders: Record<string, string> = {};
+    response.headers.forEach((value, key) => {
+        responseHeaders[key] = value;
+    });
+
+    const body = await parseResponseBody(response, method);
+
+    if (!response.ok && request.failOnError !== false) {
+        const detail = typeof body === 'string' ? body : JSON.stringify(body);
+        const snippet = detail && detail.length > 300 ? detail.substring(0, 300) + '...' : detail;
+        throw new ServiceError(
+            `HTTP ${response.status} ${response.statusText}${snippet ? `: ${snippet}` : ''}`,
+            categorizeStatus(response.status),
+            response.status
+        );
+    }
+
+    return {
+        status: response.status,
+        statusText: response.statusText,
+        ok: response.ok,
+        headers: responseHeaders,
+        body
+    };
+};
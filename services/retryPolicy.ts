@@ -0,0 +1,34 @@
+import { ErrorCategory, RetryPolicy } from '../types';
+import { classifyError, isCancelledError } from './errors';
+
+// Transient failures that usually succeed on a later attempt
+export const DEFAULT_RETRY_ON: ErrorCategory[] = ['rate-limit', 'server', 'network', 'empty-response', 'timeout'];
+
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+    maxAttempts: 3,
+    backoff: 'exponential',
+    delayMs: 2000,
+    retryOn: DEFAULT_RETRY_ON
+};
+
+const MAX_BACKOFF_MS = 60000;
+
+export const getMaxAttempts = (policy?: RetryPolicy): number => {
+    return Math.max(1, Math.floor(policy?.maxAttempts ?? 1));
+};
+
+/**
+ * Delay before the next attempt, given the attempt that just failed (1-based).
+ */
+export const getBackoffDelay = (policy: RetryPolicy, failedAttempt: number): number => {
+    const base = Math.max(0, policy.delayMs || 0);
+    const delay = policy.backoff === 'exponential' ? base * Math.pow(2, failedAttempt - 1) : base;
+    return Math.min(delay, MAX_BACKOFF_MS);
+};
+
+export const shouldRetry = (policy: RetryPolicy | undefined, error: any, failedAttempt: number): boolean => {
+    if (!policy || isCancelledError(error)) return false;
+    if (failedAttempt >= getMaxAttempts(policy)) return false;
+    const retryOn = policy.retryOn && policy.retryOn.length > 0 ? policy.retryOn : DEFAULT_RETRY_ON;
+    return retryOn.includes(classifyError(error));
+};
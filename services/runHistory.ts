@@ -0,0 +1,192 @@
+import { Node, Edge, NodeStatus, TokenUsage, isTriggerType } from '../types';
+import { RunOutcome, WorkflowEventSource, LogEntry, applyWorkflowEvent } from './workflowEvents';
+import { RunStats } from './runMetrics';
+import { RUNS_STORE, SUMMARIES_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+/**
+ * One execution of a node. Nodes inside loops have one per iteration.
+ */
+export interface NodeRunRecord {
+    nodeId: string;
+    label: string;
+    status: NodeStatus;
+    input?: any;
+    output?: any;
+    error?: string;
+    attempts?: number;
+    startedAt: number;
+    durationMs?: number;
+    usage?: TokenUsage;
+}
+
+export interface RunRecord {
+    id: string;
+    startedAt: number;
+    finishedAt?: number;
+    durationMs?: number;
+    outcome: RunOutcome;
+    payload?: any; // Trigger payload when one was sent, else the trigger's own output
+    nodes: Node[]; // The canvas as it looked when the run ended (statuses, outputs, images)
+    edges: Edge[];
+    nodeRuns: NodeRunRecord[];
+    logs: LogEntry[];
+    variables: Record<string, any>;
+    stats?: RunStats; // Missing for runs recorded before metrics were collected
+}
+
+// Light-weight entry for listing runs without loading their outputs
+export type RunSummary = Pick<RunRecord, 'id' | 'startedAt' | 'durationMs' | 'outcome'> & {
+    nodeCount: number;
+    failedCount: number;
+    totalTokens: number;
+    costUsd: number;
+};
+
+const MAX_RUNS = 50;
+
+const summarize = (run: RunRecord): RunSummary => ({
+    id: run.id,
+    startedAt: run.startedAt,
+    durationMs: run.durationMs,
+    outcome: run.outcome,
+    nodeCount: new Set(run.nodeRuns.map(r => r.nodeId)).size,
+    failedCount: run.nodeRuns.filter(r => r.status === 'error').length,
+    totalTokens: run.stats?.totalTokens.totalTokens ?? 0,
+    costUsd: run.stats?.costUsd ?? 0
+});
+
+/**
+ * Newest first.
+ */
+export const listRuns = async (): Promise<RunSummary[]> => {
+    const db = await openDatabase();
+    const summaries = await requestToPromise<RunSummary[]>(db.transaction(SUMMARIES_STORE).objectStore(SUMMARIES_STORE).getAll());
+    return summaries.sort((a, b) => b.startedAt - a.startedAt);
+};
+
+export const getRun = async (id: string): Promise<RunRecord | undefined> => {
+    const db = await openDatabase();
+    const run = await requestToPromise<RunRecord | undefined>(db.transaction(RUNS_STORE).objectStore(RUNS_STORE).get(id));
+    if (!run) return undefined;
+    // Runs recorded before the log was structured stored plain text lines
+    const logs = run.logs.map((entry: LogEntry | string): LogEntry =>
+        typeof entry === 'string' ? { timestamp: run.startedAt, level: 'info', runId: run.id, message: entry } : entry
+    );
+    return { ...run, logs };
+};
+
+export const deleteRuns = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const tx = db.transaction([RUNS_STORE, SUMMARIES_STORE], 'readwrite');
+    ids.forEach(id => {
+        tx.objectStore(RUNS_STORE).delete(id);
+        tx.objectStore(SUMMARIES_STORE).delete(id);
+    });
+    await transactionDone(tx);
+};
+
+export const clearRuns = async (): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([RUNS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(RUNS_STORE).clear();
+    tx.objectStore(SUMMARIES_STORE).clear();
+    await transactionDone(tx);
+};
+
+/**
+ * Stores a run, dropping the oldest ones beyond the history limit.
+ */
+export const saveRun = async (run: RunRecord): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction([RUNS_STORE, SUMMARIES_STORE], 'readwrite');
+    tx.objectStore(RUNS_STORE).put(run);
+    tx.objectStore(SUMMARIES_STORE).put(summarize(run));
+    await transactionDone(tx);
+
+    const runs = await listRuns();
+    await deleteRuns(runs.slice(MAX_RUNS).map(r => r.id));
+};
+
+/**
+ * Follows a run through its events and resolves with the complete record once it
+ * finishes. Subscribe before starting the run.
+ */
+export const recordRun = (source: WorkflowEventSource, nodes: Node[], edges: Edge[]): Promise<RunRecord> => {
+    return new Promise(resolve => {
+        const labels = new Map(nodes.map(n => [n.id, n.data.label]));
+        const record: RunRecord = {
+            id: crypto.randomUUID(),
+            startedAt: Date.now(),
+            outcome: 'success',
+            nodes,
+            edges,
+            nodeRuns: [],
+            logs: [],
+            variables: {}
+        };
+        // Executions still in progress, by node id
+        const open = new Map<string, NodeRunRecord>();
+
+        // Durations reported by the engine leave out time paused in the debugger
+        const close = (nodeId: string, patch: Partial<NodeRunRecord>, durationMs?: number) => {
+            const current = open.get(nodeId);
+            if (current) {
+                Object.assign(current, patch, { durationMs: durationMs ?? Date.now() - current.startedAt });
+                open.delete(nodeId);
+            } else {
+                // Cancelled or skipped before it started
+                record.nodeRuns.push({ nodeId, label: labels.get(nodeId) || nodeId, startedAt: Date.now(), ...patch } as NodeRunRecord);
+            }
+        };
+
+        const unsubscribe = source.subscribe(event => {
+            record.nodes = applyWorkflowEvent(record.nodes, event);
+            switch (event.type) {
+                case 'run-started':
+                    record.id = event.runId;
+                    record.startedAt = Date.now();
+                    record.payload = event.payload;
+                    break;
+                case 'node-started': {
+                    const nodeRun: NodeRunRecord = {
+                        nodeId: event.nodeId,
+                        label: labels.get(event.nodeId) || event.nodeId,
+                        status: 'running',
+                        input: event.input,
+                        startedAt: Date.now()
+                    };
+                    open.set(event.nodeId, nodeRun);
+                    record.nodeRuns.push(nodeRun);
+                    break;
+                }
+                case 'node-succeeded':
+                    if (record.payload === undefined && isTriggerType(nodes.find(n => n.id === event.nodeId)?.type)) {
+                        record.payload = event.output;
+                    }
+                    close(event.nodeId, { status: 'success', output: event.output, attempts: event.attempts, usage: event.usage }, event.durationMs);
+                    break;
+                case 'node-failed':
+                    close(event.nodeId, { status: 'error', error: event.error, attempts: event.attempts }, event.durationMs);
+                    break;
+                case 'node-cancelled':
+                    close(event.nodeId, { status: 'cancelled' });
+                    break;
+                case 'log': {
+                    const { type, ...entry } = event;
+                    record.logs.push(entry);
+                    break;
+                }
+                case 'run-finished':
+                    record.finishedAt = Date.now();
+                    record.durationMs = record.finishedAt - record.startedAt;
+                    record.outcome = event.result.outcome;
+                    record.variables = event.result.variables;
+                    record.stats = event.result.stats;
+                    unsubscribe();
+                    resolve(record);
+                    break;
+            }
+        });
+    });
+};
@@ -0,0 +1,108 @@
+import { Edge, TokenUsage } from '../types';
+
+/**
+ * One execution of a node. Nodes inside loops execute once per iteration; retries
+ * of the same execution count once. Durations leave out time paused in the debugger.
+ */
+export interface NodeExecutionMetrics {
+    nodeId: string;
+    startedAt: number;
+    finishedAt: number;
+    durationMs: number;
+    model?: string; // AI nodes
+    usage?: TokenUsage; // Missing when no request was made (cache hit, failure)
+    costUsd?: number; // Priced from the usage
+}
+
+/**
+ * Where the time and tokens of a run went.
+ */
+export interface RunStats {
+    durationMs: number;
+    criticalPath: string[]; // Node ids of the slowest chain of dependent nodes, in execution order
+    criticalPathMs: number;
+    tokensByModel: Record<string, TokenUsage>;
+    totalTokens: TokenUsage;
+    costByModel: Record<string, number>; // USD
+    costUsd: number;
+}
+
+export const formatDuration = (ms: number) => ms >= 1000 ? `${Math.round(ms / 100) / 10}s` : `${ms}ms`;
+
+export const EMPTY_TOKEN_USAGE: TokenUsage = { promptTokens: 0, candidatesTokens: 0, totalTokens: 0 };
+
+export const addTokenUsage = (a: TokenUsage | undefined, b: TokenUsage): TokenUsage => ({
+    promptTokens: (a?.promptTokens ?? 0) + b.promptTokens,
+    candidatesTokens: (a?.candidatesTokens ?? 0) + b.candidatesTokens,
+    totalTokens: (a?.totalTokens ?? 0) + b.totalTokens
+});
+
+/**
+ * The longest chain of nodes through the graph, weighing each node by its duration.
+ * Only edges between the given nodes count, so pass the nodes of one scope: a loop's
+ * duration already includes its body.
+ */
+export const findCriticalPath = (nodeIds: string[], edges: Edge[], durations: Map<string, number>): { path: string[]; durationMs: number } => {
+    const ids = new Set(nodeIds);
+    const scoped = edges.filter(e => ids.has(e.source) && ids.has(e.target) && e.source !== e.target);
+    const inDegree = new Map(nodeIds.map(id => [id, 0]));
+    scoped.forEach(e => inDegree.set(e.target, inDegree.get(e.target)! + 1));
+
+    // Longest finishing time of a chain ending at each node, and the node before it
+    const finish = new Map<string, number>();
+    const previous = new Map<string, string>();
+    const ready = nodeIds.filter(id => inDegree.get(id) === 0);
+    ready.forEach(id => finish.set(id, durations.get(id) ?? 0));
+    const order: string[] = []; // Topological
+
+    while (ready.length > 0) {
+        const id = ready.shift()!;
+        order.push(id);
+        scoped.filter(e => e.source === id).forEach(e => {
+            const candidate = finish.get(id)! + (durations.get(e.target) ?? 0);
+            if (!finish.has(e.target) || candidate > finish.get(e.target)!) {
+                finish.set(e.target, candidate);
+                previous.set(e.target, id);
+            }
+            inDegree.set(e.target, inDegree.get(e.target)! - 1);
+            if (inDegree.get(e.target) === 0) ready.push(e.target);
+        });
+    }
+
+    // On ties the later node in topological order wins, so instant nodes at the end stay on the path
+    let end: string | undefined;
+    order.forEach(id => {
+        if (end === undefined || finish.get(id)! >= finish.get(end)!) end = id;
+    });
+    if (end === undefined) return { path: [], durationMs: 0 };
+
+    const path = [end];
+    while (previous.has(path[0])) path.unshift(previous.get(path[0])!);
+    return { path, durationMs: finish.get(end)! };
+};
+
+/**
+ * Summarizes a run from its node executions. `scopeIds` are the nodes the run
+ * scheduled at the top level, used for the critical path.
+ */
+export const summarizeRun = (executions: NodeExecutionMetrics[], scopeIds: string[], edges: Edge[], durationMs: number): RunStats => {
+    const durations = new Map<string, number>();
+    const tokensByModel: Record<string, TokenUsage> = {};
+    const costByModel: Record<string, number> = {};
+    let totalTokens = EMPTY_TOKEN_USAGE;
+    let costUsd = 0;
+
+    executions.forEach(execution => {
+        durations.set(execution.nodeId, (durations.get(execution.nodeId) ?? 0) + execution.durationMs);
+        if (execution.usage) {
+            const model = execution.model || 'unknown';
+            tokensByModel[model] = addTokenUsage(tokensByModel[model], execution.usage);
+            totalTokens = addTokenUsage(totalTokens, execution.usage);
+            costByModel[model] = (costByModel[model] ?? 0) + (execution.costUsd ?? 0);
+            costUsd += execution.costUsd ?? 0;
+        }
+    });
+
+    const critical = findCriticalPath(scopeIds.filter(id => durations.has(id)), edges, durations);
+    return { durationMs, criticalPath: critical.path, criticalPathMs: critical.durationMs, tokensByModel, totalTokens, costByModel, costUsd };
+};
@@ -0,0 +1,129 @@
+import { MissedRunPolicy, ScheduleTriggerOutput } from '../types';
+import { CronSchedule, parseCron, getNextFireTime, getLocalTimeZone } from './cronSchedule';
+
+/**
+ * Fires a schedule trigger while the app or headless runner is open. Fire times
+ * that passed while it wasn't (app closed, machine asleep, previous run still going)
+ * are handled by the missed-run policy: skipped, run once for the latest one, or all
+ * run in order.
+ */
+export interface ScheduleOptions {
+    cron: string;
+    timezone?: string; // Defaults to the local zone
+    missedRuns?: MissedRunPolicy; // Default 'run-once'
+    lastFiredAt?: number; // Latest fire time handled before, e.g. in a previous session; without it nothing counts as missed
+    // Starts the run for one fire time; the next fire waits until it resolves
+    onFire: (trigger: ScheduleTriggerOutput) => Promise<void>;
+    // Missed fire times dropped by the policy or the catch-up limit
+    onSkip?: (scheduledTimes: number[]) => void;
+    // The latest fire time handled, to persist and pass back as lastFiredAt
+    onAdvance?: (lastFiredAt: number) => void;
+}
+
+export interface ScheduleHandle {
+    stop(): void;
+}
+
+// Fires this late still count as on time (background tabs throttle timers to about a minute)
+export const MISSED_RUN_GRACE_MS = 2 * 60 * 1000;
+
+// Most missed runs 'run-all' catches up on at once; older ones are skipped
+export const MAX_CATCH_UP_RUNS = 10;
+
+// Fire times missed longer ago than this are dropped without being reported
+export const MAX_MISSED_RUN_AGE_MS = 7 * 24 * 60 * 60 * 1000;
+
+// setTimeout overflows past ~24.8 days; longer waits re-arm in steps
+const MAX_TIMER_MS = 2 ** 31 - 1;
+
+const dueFireTimes = (schedule: CronSchedule, timeZone: string, after: number, now: number): number[] => {
+    const times: number[] = [];
+    let time = getNextFireTime(schedule, timeZone, Math.max(after, now - MAX_MISSED_RUN_AGE_MS));
+    while (time !== null && time <= now) {
+        times.push(time);
+        time = getNextFireTime(schedule, timeZone, time);
+    }
+    return times;
+};
+
+/**
+ * Splits due fire times into those to run and those to skip.
+ */
+export const applyMissedRunPolicy = (due: number[], now: number, policy: MissedRunPolicy): { run: number[]; skipped: number[] } => {
+    const missed = due.filter(t => now - t > MISSED_RUN_GRACE_MS);
+    const onTime = due.filter(t => now - t <= MISSED_RUN_GRACE_MS);
+    let caughtUp: number[];
+    switch (policy) {
+        case 'skip':
+            caughtUp = [];
+            break;
+        case 'run-all':
+            caughtUp = missed.slice(-MAX_CATCH_UP_RUNS);
+            break;
+        default:
+            // An on-time fire already covers the latest state of things
+            caughtUp = onTime.length > 0 ? [] : missed.slice(-1);
+    }
+    return {
+        run: [...caughtUp, ...onTime],
+        skipped: missed.filter(t => !caughtUp.includes(t))
+    };
+};
+
+/**
+ * Starts firing the schedule. Throws if the cron expression is invalid.
+ */
+export const startSchedule = (options: ScheduleOptions): ScheduleHandle => {
+    const schedule = parseCron(options.cron);
+    const timeZone = options.timezone || getLocalTimeZone();
+    let lastFiredAt = options.lastFiredAt ?? Date.now();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let stopped = false;
+
+    const arm = () => {
+        if (stopped) return;
+        // In the past when fire times came due during the last run; the tick then applies the policy
+        const next = getNextFireTime(schedule, timeZone, lastFiredAt);
+        if (next === null) return;
+        timer = setTimeout(tick, Math.min(Math.max(next - Date.now(), 0), MAX_TIMER_MS));
+    };
+
+    const tick = async () => {
+        timer = undefined;
+        const now = Date.now();
+        const due = dueFireTimes(schedule, timeZone, lastFiredAt, now);
+        if (due.length > 0) {
+            const { run, skipped } = applyMissedRunPolicy(due, now, options.missedRuns || 'run-once');
+            if (skipped.length > 0) options.onSkip?.(skipped);
+            lastFiredAt = due[due.length - 1];
+            options.onAdvance?.(lastFiredAt);
+
+            for (const time of run) {
+                if (stopped) return;
+                try {
+                    await options.onFire({
+                        scheduledTime: new Date(time).toISOString(),
+                        firedAt: new Date().toISOString(),
+                        timezone: timeZone,
+                        cron: schedule.expression,
+                        missed: now - time > MISSED_RUN_GRACE_MS
+                    });
+                } catch (e) {
+                    // A failed run doesn't stop the schedule
+                    console.error('Scheduled run failed', e);
+                }
+            }
+        }
+        arm();
+    };
+
+    // Catch up on fire times missed since lastFiredAt before waiting for the next one
+    tick();
+
+    return {
+        stop() {
+            stopped = true;
+            if (timer !== undefined) clearTimeout(timer);
+        }
+    };
+};
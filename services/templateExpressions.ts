@@ -0,0 +1,184 @@
+/**
+ * Parser and filters for the expressions inside {{ }} placeholders.
+ *
+ * Supported syntax:
+ *   - Paths: `name`, `trigger_data.user.name`, `items[0].title`
+ *   - Filters, applied left to right: `{{ name | upper }}`, `{{ tags | join:", " | truncate:40 }}`
+ *   - Defaults for missing or empty values: `{{ name | default:"anon" }}`
+ *
+ * Path lookup itself is left to the caller so the same expression can be
+ * evaluated against the engine's variables or a condition's context.
+ */
+
+export interface TemplateFilter {
+    name: string;
+    args: any[];
+}
+
+export interface TemplateExpression {
+    path: string;
+    filters: TemplateFilter[];
+}
+
+const PATH_PATTERN = /^[a-zA-Z_$][\w$\-]*(\.[\w$\-]+|\[\d+\])*$/;
+// Only braces starting with a path count as placeholders, other {{ }} text is left alone
+const PLACEHOLDER_PATTERN = /\{\{\s*([a-zA-Z_$][\w$\-]*(?:\.[\w$\-]+|\[\d+\])*\s*(?:\|[\s\S]*?)?)\}\}/g;
+const FILTER_PATTERN = /^([a-zA-Z_][a-zA-Z0-9_]*)\s*(?::([\s\S]*))?$/;
+
+/**
+ * Splits on a separator character, ignoring separators inside quoted strings.
+ */
+const splitOutsideQuotes = (text: string, separator: string): string[] => {
+    const parts: string[] = [];
+    let current = '';
+    let quote: string | null = null;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            current += char;
+            if (char === '\\' && i + 1 < text.length) {
+                current += text[++i];
+            } else if (char === quote) {
+                quote = null;
+            }
+        } else if (char === '"' || char === "'") {
+            quote = char;
+            current += char;
+        } else if (char === separator) {
+            parts.push(current);
+            current = '';
+        } else {
+            current += char;
+        }
+    }
+    if (quote) throw new Error(`Unterminated string in '${text}'`);
+    parts.push(current);
+    return parts;
+};
+
+const parseArgument = (raw: string): any => {
+    const arg = raw.trim();
+    const quoted = arg.match(/^(["'])([\s\S]*)\1$/);
+    if (quoted) return quoted[2].replace(/\\(.)/g, '$1');
+    if (arg !== '' && !isNaN(Number(arg))) return Number(arg);
+    if (arg === 'true' || arg === 'false') return arg === 'true';
+    return arg;
+};
+
+const toText = (value: any): string => {
+    if (value === null || value === undefined) return '';
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// AI text nodes often return JSON as a string, so list filters accept that too
+const toList = (value: any): any[] | null => {
+    if (Array.isArray(value)) return value;
+    if (typeof value === 'string' && value.trim().startsWith('[')) {
+        try {
+            const parsed = JSON.parse(value);
+            if (Array.isArray(parsed)) return parsed;
+        } catch {
+            // Not a JSON array
+        }
+    }
+    return null;
+};
+
+const toBase64 = (text: string): string => {
+    const bytes = new TextEncoder().encode(text);
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+const isMissing = (value: any) => value === null || value === undefined || value === '';
+
+const FILTERS: Record<string, (value: any, ...args: any[]) => any> = {
+    default: (value, fallback = '') => isMissing(value) ? fallback : value,
+    upper: (value) => toText(value).toUpperCase(),
+    lower: (value) => toText(value).toLowerCase(),
+    json: (value, indent) => JSON.stringify(value ?? null, null, typeof indent === 'number' ? indent : undefined),
+    length: (value) => {
+        if (value === null || value === undefined) return 0;
+        const list = toList(value);
+        if (list) return list.length;
+        if (typeof value === 'object') return Object.keys(value).length;
+        return toText(value).length;
+    },
+    join: (value, separator = ', ') => {
+        const list = toList(value);
+        return list ? list.map(toText).join(String(separator)) : toText(value);
+    },
+    truncate: (value, length = 100, suffix = '...') => {
+        const text = toText(value);
+        const max = Math.max(0, Number(length) || 0);
+        return text.length > max ? text.substring(0, max) + suffix : text;
+    },
+    base64: (value) => {
+        const text = toText(value);
+        // Data URLs are already encoded; return just their payload
+        const dataUrl = text.match(/^data:[^;,]*;base64,([\s\S]*)$/);
+        return dataUrl ? dataUrl[1] : toBase64(text);
+    },
+};
+
+export const FILTER_NAMES = Object.keys(FILTERS);
+
+/**
+ * Parses the inside of a placeholder (without the braces).
+ * Throws when the path or a filter is malformed or unknown.
+ */
+export const parseTemplateExpression = (expression: string): TemplateExpression => {
+    const [rawPath, ...rawFilters] = splitOutsideQuotes(expression, '|');
+    const path = rawPath.trim();
+    if (!PATH_PATTERN.test(path)) {
+        throw new Error(`Invalid variable path '${path}' in '{{${expression}}}'`);
+    }
+
+    const filters = rawFilters.map(raw => {
+        const match = raw.trim().match(FILTER_PATTERN);
+        if (!match) throw new Error(`Invalid filter '${raw.trim()}' in '{{${expression}}}'`);
+        const name = match[1].toLowerCase();
+        if (!FILTERS[name]) {
+            throw new Error(`Unknown filter '${name}'. Available: ${FILTER_NAMES.join(', ')}`);
+        }
+        const args = match[2] !== undefined ? splitOutsideQuotes(match[2], ',').map(parseArgument) : [];
+        return { name, args };
+    });
+
+    return { path, filters };
+};
+
+export const applyFilters = (value: any, filters: TemplateFilter[]): any => {
+    return filters.reduce((current, filter) => FILTERS[filter.name](current, ...filter.args), value);
+};
+
+export const hasDefaultFilter = (expression: TemplateExpression): boolean => {
+    return expression.filters.some(f => f.name === 'default');
+};
+
+/**
+ * Replaces every placeholder in a text with the value returned by `resolve`.
+ * Objects are inserted as JSON.
+ */
+export const replacePlaceholders = (text: string, resolve: (expression: TemplateExpression) => any): string => {
+    return text.replace(PLACEHOLDER_PATTERN, (_match, inner) => toText(resolve(parseTemplateExpression(inner))));
+};
+
+/**
+ * Returns the first placeholder syntax error in a text, if any.
+ * Used by validation to report unknown filters before a run starts.
+ */
+export const findTemplateError = (text: string): string | null => {
+    for (const match of text.matchAll(PLACEHOLDER_PATTERN)) {
+        try {
+            parseTemplateExpression(match[1]);
+        } catch (e: any) {
+            return e.message;
+        }
+    }
+    return null;
+};
@@ -0,0 +1,128 @@
+import { Node, Edge, ScopeKind, getEdgeSourceHandle, isTriggerType } from '../types';
+
+/**
+ * A level of the variable store. Lookups walk outwards from the innermost scope,
+ * so a variable set in a branch or loop iteration shadows one with the same name
+ * further out. Writes always land in the scope they are made on.
+ *
+ *   - global: one per run, holds the trigger data and anything stored globally
+ *   - branch: created when a node fans out to several parallel nodes, and when
+ *     parallel branches join again
+ *   - loop: one per loop iteration, holds `item` and `index`
+ */
+export class VariableScope {
+    readonly values: Record<string, any> = {};
+
+    constructor(readonly kind: ScopeKind, readonly label: string, readonly parent?: VariableScope) {}
+
+    child(kind: ScopeKind, label: string): VariableScope {
+        return new VariableScope(kind, label, this);
+    }
+
+    has(name: string): boolean {
+        return this.values.hasOwnProperty(name) || !!this.parent?.has(name);
+    }
+
+    get(name: string): any {
+        if (this.values.hasOwnProperty(name)) return this.values[name];
+        return this.parent?.get(name);
+    }
+
+    set(name: string, value: any) {
+        this.values[name] = value;
+    }
+
+    /**
+     * Every visible variable, inner scopes overriding outer ones.
+     */
+    flatten(): Record<string, any> {
+        return { ...(this.parent ? this.parent.flatten() : {}), ...this.values };
+    }
+
+    /**
+     * This scope followed by its ancestors, innermost first.
+     */
+    chain(): VariableScope[] {
+        return this.parent ? [this, ...this.parent.chain()] : [this];
+    }
+}
+
+/**
+ * Builds the scope for a node joining several branches: a new branch scope below
+ * the branches' closest common ancestor, holding everything the branches set.
+ * Returns the names set by more than one branch with different values.
+ */
+export const mergeScopes = (scopes: VariableScope[], label: string): { scope: VariableScope; conflicts: string[] } => {
+    const chains = scopes.map(s => s.chain());
+    const ancestor = chains[0].find(candidate => chains.every(chain => chain.includes(candidate)))!;
+    const merged = ancestor.child('branch', label);
+    const setBy = new Map<string, any>();
+    const conflicts = new Set<string>();
+
+    chains.forEach(chain => {
+        // Outer scopes first so inner values win within a branch
+        const own = chain.slice(0, chain.indexOf(ancestor)).reverse();
+        const values = Object.assign({}, ...own.map(s => s.values));
+        Object.entries(values).forEach(([name, value]) => {
+            if (setBy.has(name) && setBy.get(name) !== value) conflicts.add(name);
+            setBy.set(name, value);
+            merged.set(name, value);
+        });
+    });
+
+    return { scope: merged, conflicts: Array.from(conflicts) };
+};
+
+/**
+ * Works out statically which kind of scope each node runs in, matching what the
+ * engine does at run time. Used to show where variables live before running.
+ */
+export const inferScopeKinds = (nodes: Node[], edges: Edge[]): Record<string, ScopeKind> => {
+    const kinds: Record<string, ScopeKind> = {};
+    const byId = new Map(nodes.map(n => [n.id, n]));
+    const isBodyEdge = (e: Edge) => {
+        const source = byId.get(e.source);
+        return !!source && source.type === 'loop' && getEdgeSourceHandle(e, source) === 'body';
+    };
+
+    // Nodes inside a loop body run in an iteration scope
+    const inLoop = new Set<string>();
+    const stack = edges.filter(isBodyEdge).map(e => e.target);
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (inLoop.has(id) || isTriggerType(byId.get(id)?.type)) continue;
+        inLoop.add(id);
+        edges.filter(e => e.source === id && !isBodyEdge(e)).forEach(e => stack.push(e.target));
+    }
+
+    // A node fans out when one of its outputs leads to several nodes
+    const forks = (node: Node): boolean => {
+        const targetsByHandle = new Map<string, Set<string>>();
+        edges.filter(e => e.source === node.id && !isBodyEdge(e)).forEach(e => {
+            const handle = getEdgeSourceHandle(e, node);
+            if (!targetsByHandle.has(handle)) targetsByHandle.set(handle, new Set());
+            targetsByHandle.get(handle)!.add(e.target);
+        });
+        return Array.from(targetsByHandle.values()).some(targets => targets.size > 1);
+    };
+
+    const visiting = new Set<string>();
+    const kindOf = (node: Node): ScopeKind => {
+        if (kinds[node.id]) return kinds[node.id];
+        if (inLoop.has(node.id)) return (kinds[node.id] = 'loop');
+        if (visiting.has(node.id)) return 'global'; // Cycle, reported by validation
+        visiting.add(node.id);
+
+        const parents = edges
+            .filter(e => e.target === node.id && !isBodyEdge(e))
+            .map(e => byId.get(e.source))
+            .filter((n): n is Node => !!n);
+        const kind: ScopeKind = parents.some(p => forks(p) || kindOf(p) !== 'global') ? 'branch' : 'global';
+
+        visiting.delete(node.id);
+        return (kinds[node.id] = kind);
+    };
+
+    nodes.forEach(n => kindOf(n));
+    return kinds;
+};
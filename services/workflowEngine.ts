@@ -1,93 +1,434 @@
-import { Node, Edge, NodeInput } from '../types';
-import { executeAiNode } from './geminiService';
+import { Node, Edge, NodeData, NodeInput, NodeErrorOutput, TokenUsage, ERROR_HANDLE, isOutputPinned, ValidationIssue, WorkflowSettings, DEFAULT_MAX_CONCURRENCY, DEFAULT_NODE_TIMEOUTS, getEdgeSourceHandle, isTriggerType, ScheduleTriggerOutput, MAX_SUBWORKFLOW_DEPTH } from '../types';
+import { executeAiNode, buildAiRequest, AiRequest, AiResponse } from './geminiService';
+import { AiResponseCache, getRequestKey } from './aiResponseCache';
+import { WorkflowLibrary } from './workflowLibrary';
+import { evaluateCondition, resolvePath } from './conditionEvaluator';
+import { executeHttpRequest, FetchLike } from './httpService';
+import { validateWorkflow, hasBlockingIssues } from './workflowValidator';
+import { CancelledError, TimeoutError, BudgetExceededError, isCancelledError, classifyError } from './errors';
+import { getBackoffDelay, getMaxAttempts, shouldRetry } from './retryPolicy';
+import { VariableScope, mergeScopes } from './variableScope';
+import { WorkflowEvent, WorkflowEventListener, WorkflowEventSource, RunOutcome, RunResult, NodeDebugSnapshot, LogEntry, LogLevel, NestedLogSource, applyWorkflowEvent } from './workflowEvents';
+import { NodeExecutionMetrics, RunStats, summarizeRun, formatDuration } from './runMetrics';
+import { costOfUsage, estimateRequestCost, estimateWorkflowCost, formatCost } from './costEstimator';
+import { getLocalTimeZone } from './cronSchedule';
+import { TemplateExpression, parseTemplateExpression, applyFilters, hasDefaultFilter, replacePlaceholders } from './templateExpressions';
 
-export class WorkflowEngine {
-  nodes: Node[];
+export interface NodeExecutionResult {
+  success: boolean;
+  output?: any;
+  error?: string;
+  attempts?: number;
+  cancelled?: boolean;
+  activeHandle?: string; // Restricts which outgoing edges are followed (branching nodes)
+  variables?: VariableScope; // Scope the node ran in, set by runGraph
+}
+
+export interface RunOptions {
+  payload?: any; // Data received by the trigger, e.g. from a CLI or an HTTP request
+  debug?: boolean; // Pause before nodes with a breakpoint; unattended runs (CLI, webhook server) leave this off
+  rerun?: RerunOptions;
+}
+
+/**
+ * Re-runs part of a workflow on top of a previous run. Upstream nodes with a
+ * cached output are not executed again: their output is passed on and stored into
+ * variables as if they had just run. Conditions are re-evaluated (they are free),
+ * as is any upstream node without a cached output.
+ */
+export interface RerunOptions {
+  nodeId: string;
+  mode: 'from' | 'only'; // The node and everything after it, or just the node
+  outputs: Record<string, any>; // Outputs of the previous run by node id
+  variables?: Record<string, any>; // Final variables of the previous run, including edits made while debugging
+}
+
+// Tokens and cost of a sub-workflow's nested run, reported on the node that called it
+interface NestedRunUsage {
+  usage?: TokenUsage;
+  costUsd: number;
+}
+
+// Everything a node's type-specific work produces
+interface NodePerformance {
+  output: any;
+  activeHandle?: string; // Restricts which outgoing edges are followed (branching nodes)
+  usage?: TokenUsage; // AI nodes
+  nested?: NestedRunUsage; // Sub-workflow nodes
+}
+
+// A node held by the debugger until step() or resume()
+interface PausedNode {
+  node: Node;
+  input: any;
+  variables: VariableScope;
+  release: () => void;
+}
+
+// A node to start a scope from, with the input it receives, where that input came from
+// and the variable scope it runs in
+interface GraphEntry {
+  nodeId: string;
+  sourceId?: string;
+  input: any;
+  variables: VariableScope;
+}
+
+/**
+ * Runs a workflow and reports progress as WorkflowEvents. The engine holds no UI
+ * state: subscribe to follow a run (the React app, a CLI, tests).
+ */
+export class WorkflowEngine implements WorkflowEventSource {
+  nodes: Node[]; // The engine's copy, node statuses are tracked on it during a run
   edges: Edge[];
-  logs: string[];
-  variables: Record<string, any> = {}; // Global variable store
-  setNodes: (nodes: Node[]) => void;
-  setLogs: (logs: string[]) => void;
-
-  constructor(
-    nodes: Node[], 
-    edges: Edge[], 
-    setNodes: (nodes: Node[]) => void,
-    setLogs: (log: string[]) => void
-  ) {
-    this.nodes = JSON.parse(JSON.stringify(nodes)); // Deep copy to avoid direct mutation issues
+  logs: LogEntry[]; // Execution log of the current / last run
+  runId = ''; // Identifies the current / last run in log entries and events
+  executions: NodeExecutionMetrics[] = []; // Timing and token usage of every node execution in the current / last run
+  costUsd = 0; // Spent on AI requests in the current / last run
+  globals = new VariableScope('global', 'global'); // Run-level variables; branch and loop scopes nest below
+  fetchImpl?: FetchLike; // Optional HTTP transport override for API nodes (defaults to fetch)
+  responseCache?: AiResponseCache; // Where AI nodes with useCache look up earlier responses; none disables caching
+  workflowLibrary?: WorkflowLibrary; // Where sub-workflow nodes load the workflows they call; none makes them fail
+  callPath: string[] = []; // Names of the sub-workflows this engine is running inside, outermost first
+  settings: WorkflowSettings;
+  validationIssues: ValidationIssue[] = [];
+
+  // Aborted by cancel(); its signal is passed to in-flight Gemini and HTTP requests. One per run
+  private abortController = new AbortController();
+
+  // Concurrency limiter shared by every scope (including loop bodies) of a run
+  private activeSlots = 0;
+  private slotQueue: (() => void)[] = [];
+
+  private listeners = new Set<WorkflowEventListener>();
+  private triggerPayload: any;
+  // Outputs replayed instead of executing the node, when re-running part of a workflow
+  private replayedOutputs = new Map<string, any>();
+  private rerunTargetId?: string; // The node a partial run was asked to execute
+  // Nodes that failed without an error branch to handle it
+  private failedNodeIds: string[] = [];
+  private runStartedAt = 0;
+  // Expected cost of AI requests in flight, held against the budget until they return
+  private reservedUsd = 0;
+  private runScope: string[] = []; // Nodes scheduled at the top level, for the critical path
+
+  private debugging = false;
+  private stepping = false; // Pause before every node, not just breakpoints
+  private pausedNodes = new Map<string, PausedNode>();
+
+  // The run timeout's clock stops while the debugger holds the run
+  private runTimer?: ReturnType<typeof setTimeout>;
+  private runTimeLeft = 0;
+  private runTimerStartedAt = 0;
+
+  constructor(nodes: Node[], edges: Edge[], settings: WorkflowSettings = {}) {
+    // Node updates always replace objects, so a shallow copy keeps the caller's list untouched
+    this.nodes = [...nodes];
     this.edges = edges;
     this.logs = [];
-    this.setNodes = setNodes;
-    this.setLogs = setLogs;
-  }
-
-  log(message: string) {
-    const timestamp = new Date().toLocaleTimeString();
-    this.logs.push(`[${timestamp}] ${message}`);
-    this.setLogs([...this.logs]);
-  }
-
-  updateNodeStatus(id: string, status: 'idle' | 'running' | 'success' | 'error', output?: any, error?: string) {
-    this.nodes = this.nodes.map(n => {
-      if (n.id === id) {
-        return {
-          ...n,
-          data: {
-            ...n.data,
-            status,
-            outputValue: output !== undefined ? output : n.data.outputValue,
-            errorMessage: error
-          }
-        };
+    this.settings = settings;
+  }
+
+  subscribe(listener: WorkflowEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Notifies subscribers. Node events are also applied to the engine's own copy of
+   * the nodes so statuses can be checked later in the run.
+   */
+  emit(event: WorkflowEvent) {
+    this.nodes = applyWorkflowEvent(this.nodes, event);
+    this.listeners.forEach(listener => {
+      try {
+        listener(event);
+      } catch (e) {
+        // A broken subscriber must not stop the run
+        console.error("Workflow event listener failed:", e);
       }
-      return n;
     });
-    this.setNodes([...this.nodes]);
+  }
+
+  get maxConcurrency(): number {
+    const limit = Math.floor(this.settings.maxConcurrency ?? DEFAULT_MAX_CONCURRENCY);
+    return limit > 0 ? limit : 1;
+  }
+
+  async acquireSlot(): Promise<void> {
+    if (this.activeSlots < this.maxConcurrency) {
+      this.activeSlots++;
+      return;
+    }
+    await new Promise<void>(resolve => this.slotQueue.push(resolve));
+  }
+
+  releaseSlot() {
+    const next = this.slotQueue.shift();
+    if (next) {
+      next(); // Hand the slot straight to the next waiting node
+    } else {
+      this.activeSlots--;
+    }
+  }
+
+  log(message: string, details: { level?: LogLevel; nodeId?: string; data?: any; subWorkflow?: NestedLogSource } = {}) {
+    const entry: LogEntry = { timestamp: Date.now(), level: details.level || 'info', runId: this.runId, message };
+    if (details.nodeId) entry.nodeId = details.nodeId;
+    if (details.data !== undefined) entry.data = details.data;
+    if (details.subWorkflow) entry.subWorkflow = details.subWorkflow;
+    this.logs.push(entry);
+    this.emit({ type: 'log', ...entry });
+  }
+
+  get isCancelled(): boolean {
+    return this.abortController.signal.aborted;
+  }
+
+  // True when the run was stopped by the run timeout rather than by the user
+  get runTimedOut(): boolean {
+    return this.abortController.signal.reason instanceof TimeoutError;
+  }
+
+  // True when the run was stopped because an AI request would have exceeded the budget
+  get runOverBudget(): boolean {
+    return this.abortController.signal.reason instanceof BudgetExceededError;
   }
 
   /**
-   * Replaces {{variable}} placeholders in a string with values from the global store.
-   * Supports alphanumeric, underscores, and hyphens.
+   * Per-attempt timeout for a node: its own setting, else the workflow default for its type.
+   * Loops have none; the nodes in their body are limited individually.
    */
-  resolveVariables(text: string): string {
-      if (!text) return "";
-      // Updated regex to allow spaces inside braces: {{ var }} and support hyphens
-      return text.replace(/\{\{\s*([a-zA-Z0-9_\-]+)\s*\}\}/g, (match, varName) => {
-          if (this.variables.hasOwnProperty(varName)) {
-              const val = this.variables[varName];
-              return typeof val === 'object' ? JSON.stringify(val) : String(val);
-          }
-          throw new Error(`Variable '${varName}' not found. Available: ${Object.keys(this.variables).join(', ')}`);
+  getNodeTimeout(node: Node): number {
+    if (node.type === 'loop') return 0;
+    return node.data.timeoutMs ?? this.settings.nodeTimeouts?.[node.type] ?? DEFAULT_NODE_TIMEOUTS[node.type] ?? 0;
+  }
+
+  /**
+   * Runs a task with a signal that aborts when the run is cancelled or the timeout elapses.
+   * A timeout rejects with TimeoutError even if the task ignores its signal.
+   */
+  async runWithTimeout<T>(label: string, timeoutMs: number, task: (signal: AbortSignal) => Promise<T>): Promise<T> {
+    const controller = new AbortController();
+    const runSignal = this.abortController.signal;
+    const onRunAbort = () => controller.abort(runSignal.reason);
+    if (runSignal.aborted) controller.abort(runSignal.reason);
+    runSignal.addEventListener('abort', onRunAbort);
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let timedOut = false;
+    const timeoutMessage = `${label} timed out after ${formatDuration(timeoutMs)}.`;
+
+    try {
+      const work = task(controller.signal);
+      if (!timeoutMs || timeoutMs <= 0) return await work;
+
+      const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => {
+          timedOut = true;
+          controller.abort();
+          reject(new TimeoutError(timeoutMessage));
+        }, timeoutMs);
       });
+      return await Promise.race([work, timeout]);
+    } catch (err) {
+      // Services report their aborted request as cancelled; surface the real cause
+      if (timedOut) throw new TimeoutError(timeoutMessage);
+      throw err;
+    } finally {
+      clearTimeout(timer);
+      runSignal.removeEventListener('abort', onRunAbort);
+    }
   }
 
   /**
-   * Resolves a single variable value.
+   * Stops the run: aborts in-flight requests and prevents any further node from starting.
    */
-  resolveVariableValue(varName: string): any {
-      const stripped = varName.trim().replace(/^\{\{\s*|\s*\}\}$/g, '');
-      if (this.variables.hasOwnProperty(stripped)) {
-          return this.variables[stripped];
+  cancel() {
+    if (this.isCancelled) return;
+    this.log("Cancelling workflow execution...", { level: 'warn' });
+    this.abortController.abort();
+  }
+
+  private startRunTimer() {
+    const runTimeoutMs = this.settings.runTimeoutMs || 0;
+    if (runTimeoutMs <= 0 || this.runTimer || this.runTimeLeft <= 0) return;
+    this.runTimerStartedAt = Date.now();
+    this.runTimer = setTimeout(() => {
+      this.log(`Run timeout of ${formatDuration(runTimeoutMs)} reached, stopping...`, { level: 'error' });
+      this.abortController.abort(new TimeoutError(`Workflow run timed out after ${formatDuration(runTimeoutMs)}.`));
+    }, this.runTimeLeft);
+  }
+
+  private stopRunTimer() {
+    if (!this.runTimer) return;
+    clearTimeout(this.runTimer);
+    this.runTimer = undefined;
+    this.runTimeLeft -= Date.now() - this.runTimerStartedAt;
+  }
+
+  get isPaused(): boolean {
+    return this.pausedNodes.size > 0;
+  }
+
+  /**
+   * Resumes every paused node and pauses again before the next node that starts.
+   */
+  step() {
+    this.release(true);
+  }
+
+  /**
+   * Resumes every paused node and runs on until the next breakpoint.
+   */
+  resume() {
+    this.release(false);
+  }
+
+  private release(stepping: boolean) {
+    this.stepping = stepping;
+    const paused = Array.from(this.pausedNodes.values());
+    if (paused.length === 0) return;
+    this.pausedNodes.clear();
+    this.log(stepping ? "Debugger: stepping." : "Debugger: continuing.");
+    this.startRunTimer();
+    paused.forEach(p => p.release());
+  }
+
+  /**
+   * Changes a variable while a node is paused. The value is written where the
+   * variable currently lives (or the node's own scope if it doesn't exist yet) and
+   * the node's fields are resolved again with it.
+   */
+  setVariable(nodeId: string, name: string, value: any) {
+    const paused = this.pausedNodes.get(nodeId);
+    if (!paused) throw new Error(`Node '${nodeId}' is not paused.`);
+    const owner = paused.variables.chain().find(s => s.values.hasOwnProperty(name)) || paused.variables;
+    owner.set(name, value);
+    this.emit({ type: 'variable-set', nodeId, name, value, scope: owner.kind, scopeLabel: owner.label });
+    this.log(`Debugger: set variable '${name}' (${owner.label} scope)`, { nodeId, data: { name, value } });
+    this.emit({ type: 'node-paused', nodeId, snapshot: this.getDebugSnapshot(paused.node, paused.input, paused.variables) });
+  }
+
+  /**
+   * Holds a node before it executes until the debugger steps or resumes.
+   * Rejects with CancelledError if the run is cancelled meanwhile.
+   */
+  private async pauseBefore(node: Node, inputData: any, variables: VariableScope): Promise<void> {
+    const signal = this.abortController.signal;
+    if (signal.aborted) throw new CancelledError();
+
+    await new Promise<void>((resolve, reject) => {
+      const onAbort = () => {
+        this.pausedNodes.delete(node.id);
+        reject(new CancelledError());
+      };
+      signal.addEventListener('abort', onAbort, { once: true });
+      this.pausedNodes.set(node.id, {
+        node,
+        input: inputData,
+        variables,
+        release: () => {
+          signal.removeEventListener('abort', onAbort);
+          resolve();
+        }
+      });
+      this.stopRunTimer();
+      this.emit({ type: 'node-paused', nodeId: node.id, snapshot: this.getDebugSnapshot(node, inputData, variables) });
+      this.log(`Paused before ${node.data.label}${node.data.breakpoint ? ' (breakpoint)' : ''}.`, { nodeId: node.id });
+    });
+    this.emit({ type: 'node-resumed', nodeId: node.id });
+  }
+
+  getDebugSnapshot(node: Node, inputData: any, variables: VariableScope): NodeDebugSnapshot {
+    const snapshot: NodeDebugSnapshot = { input: inputData, resolved: {}, variables: variables.flatten(), scopeLabel: variables.label };
+    try {
+      const data = this.resolveNodeData(node, variables, false);
+      const { prompt, apiMethod, apiUrl, apiHeaders, apiQueryParams, apiBody, inputs, inputImage, condition, loopArray } = data;
+      snapshot.resolved = node.type === 'api'
+        ? { apiMethod: apiMethod || 'GET', apiUrl, apiHeaders, apiQueryParams, apiBody }
+        : { prompt, inputs, inputImage, condition, loopArray };
+    } catch (e: any) {
+      snapshot.resolveError = e.message;
+    }
+    return snapshot;
+  }
+
+  /**
+   * Waits for the given time, rejecting early if the run is cancelled.
+   */
+  sleep(ms: number): Promise<void> {
+    return new Promise((resolve, reject) => {
+      const signal = this.abortController.signal;
+      if (signal.aborted) return reject(new CancelledError());
+      const onAbort = () => {
+        clearTimeout(timer);
+        reject(new CancelledError());
+      };
+      const timer = setTimeout(() => {
+        signal.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Evaluates a parsed placeholder against a variable scope (and the scopes around it).
+   * Unknown variables throw unless the expression provides a default.
+   */
+  evaluateExpression(expression: TemplateExpression, variables: VariableScope = this.globals): any {
+      const varName = expression.path.split(/[.[]/)[0];
+      const visible = variables.flatten();
+      if (!visible.hasOwnProperty(varName) && !hasDefaultFilter(expression)) {
+          throw new Error(`Variable '${varName}' not found in ${variables.label} scope. Available: ${Object.keys(visible).join(', ')}`);
       }
-      throw new Error(`Variable '${stripped}' not found. Available: ${Object.keys(this.variables).join(', ')}`);
+      return applyFilters(resolvePath(expression.path, { variables: visible }), expression.filters);
+  }
+
+  /**
+   * Replaces {{variable}} placeholders in a string with values visible from the given scope.
+   * Supports paths (user.name, items[0]) and filters ({{name | default:"anon" | upper}}).
+   */
+  resolveVariables(text: string, variables: VariableScope = this.globals): string {
+      if (!text) return "";
+      return replacePlaceholders(text, expression => this.evaluateExpression(expression, variables));
+  }
+
+  /**
+   * Resolves a template to a value: a lone {{placeholder}} keeps the variable's type,
+   * anything else is interpolated into a string.
+   */
+  resolveTemplateValue(text: string, variables: VariableScope = this.globals): any {
+      if (/^\s*\{\{[^{}]*\}\}\s*$/.test(text)) return this.resolveVariableValue(text, variables);
+      return this.resolveVariables(text, variables);
+  }
+
+  /**
+   * Resolves a single variable value, keeping its type (e.g. image Data URLs, objects).
+   */
+  resolveVariableValue(varName: string, variables: VariableScope = this.globals): any {
+      const stripped = varName.trim().replace(/^\{\{\s*|\s*\}\}$/g, '');
+      return this.evaluateExpression(parseTemplateExpression(stripped), variables);
   }
 
   /**
    * Resolves the list of inputs for AI nodes.
    * Handles both file (base64) and variable references.
    */
-  resolveInputs(inputs: NodeInput[]): NodeInput[] {
+  resolveInputs(inputs: NodeInput[], variables: VariableScope = this.globals, logWarnings = true): NodeInput[] {
       if (!inputs) return [];
       
       return inputs.map(input => {
           if (input.type === 'variable') {
               try {
-                  const val = this.resolveVariableValue(input.value);
+                  const val = this.resolveVariableValue(input.value, variables);
                   // We return the resolved value in the 'value' field so the execution service can use it directly
                   return { ...input, value: val }; 
               } catch (e: any) {
-                  this.log(`Warning: ${e.message}`);
+                  if (logWarnings) this.log(e.message, { level: 'warn' });
                   return input; // Return original if fail, service might handle or fail later
               }
           }
@@ -98,10 +439,10 @@ export class WorkflowEngine {
   /**
    * Legacy resolver for single input image.
    */
-  resolveInputImage(nodeData: any): string | undefined {
+  resolveInputImage(nodeData: any, variables: VariableScope = this.globals): string | undefined {
       if (nodeData.inputImageVariable) {
           try {
-              return this.resolveVariableValue(nodeData.inputImageVariable);
+              return this.resolveVariableValue(nodeData.inputImageVariable, variables);
           } catch (e: any) {
              throw new Error(e.message);
           }
@@ -135,167 +476,1005 @@ export class WorkflowEngine {
        return String(input);
   }
 
-  async run() {
-    this.log("Starting workflow execution...");
+  /**
+   * Resolves the array a Loop node iterates over.
+   * Accepts a variable name, a path into one (e.g. trigger_data.items) or a {{placeholder}}.
+   * JSON strings are parsed so AI text outputs can be looped over directly.
+   */
+  resolveLoopArray(loopArray: string | undefined, inputData: any, variables: VariableScope = this.globals): any[] {
+      const path = (loopArray || '').trim().replace(/^\{\{\s*|\s*\}\}$/g, '');
+      let value = path ? resolvePath(path, { variables: variables.flatten(), input: inputData }) : inputData;
+
+      if (typeof value === 'string') {
+          try {
+              value = JSON.parse(value);
+          } catch {
+              // Not JSON, handled by the array check below
+          }
+      }
+
+      if (!Array.isArray(value)) {
+          throw new Error(`Loop source '${path || 'input'}' is not an array (got ${value === null ? 'null' : typeof value}).`);
+      }
+      return value;
+  }
+
+  /**
+   * Runs the loop's 'body' sub-graph once per item, each iteration in its own
+   * variable scope with `item` and `index` bound, so values stored by the body
+   * don't leak between iterations. Returns the result of each iteration: the output
+   * of the node at the end of the body, or an object keyed by node id when the
+   * body ends in several nodes.
+   */
+  async executeLoop(node: Node, items: any[], variables: VariableScope): Promise<any[]> {
+      const bodyTargets = this.getOutgoingEdges(node)
+          .filter(e => this.isLoopBodyEdge(e, node))
+          .map(e => e.target);
+      const scope = this.collectScope(bodyTargets, node.id);
+      const results: any[] = [];
+
+      for (let index = 0; index < items.length; index++) {
+          if (this.isCancelled) throw new CancelledError();
+          const iterationVariables = variables.child('loop', `${node.data.label} #${index + 1}`);
+          iterationVariables.set('item', items[index]);
+          iterationVariables.set('index', index);
+          this.log(`Loop ${node.data.label}: iteration ${index + 1} of ${items.length}`, { nodeId: node.id, data: { index, item: items[index] } });
+
+          const entries = bodyTargets.map(nodeId => ({ nodeId, sourceId: node.id, input: items[index], variables: iterationVariables }));
+          const iteration = await this.runGraph(scope, entries);
+          results.push(this.collectSinkOutputs(scope, iteration));
+      }
+
+      return results;
+  }
+
+  getOutgoingEdges(node: Node): Edge[] {
+      return this.edges.filter(e => e.source === node.id);
+  }
+
+  isLoopBodyEdge(edge: Edge, node: Node): boolean {
+      return node.type === 'loop' && getEdgeSourceHandle(edge, node) === 'body';
+  }
+
+  /**
+   * Collects the ids of all nodes reachable from the entry nodes.
+   * Loop bodies are not descended into; they form their own scope that the
+   * loop node schedules once per item.
+   */
+  collectScope(entryIds: string[], excludeId?: string): Set<string> {
+      const scope = new Set<string>();
+      const stack = [...entryIds];
+
+      while (stack.length > 0) {
+          const id = stack.pop()!;
+          if (scope.has(id) || id === excludeId) continue;
+          const node = this.nodes.find(n => n.id === id);
+          if (!node) continue;
+
+          scope.add(id);
+          this.getOutgoingEdges(node)
+              .filter(e => !this.isLoopBodyEdge(e, node))
+              .forEach(e => stack.push(e.target));
+      }
+
+      return scope;
+  }
+
+  /**
+   * Returns the outputs of the nodes that ended a scope (attempted nodes with no
+   * attempted successors inside it).
+   */
+  collectSinkOutputs(scope: Set<string>, results: Map<string, NodeExecutionResult>): any {
+      const sinks = this.findSinks(scope, results);
+      if (sinks.length === 1) return results.get(sinks[0])!.output;
+      return Object.fromEntries(sinks.map(id => [id, results.get(id)!.output]));
+  }
+
+  /**
+   * Returns the variables visible where a scope ended: the scopes of its sinks are
+   * merged the way a join merges its parents, so writes made on branches are kept.
+   */
+  collectSinkVariables(scope: Set<string>, results: Map<string, NodeExecutionResult>): Record<string, any> {
+      const sinkScopes = this.findSinks(scope, results).map(id => results.get(id)!.variables);
+      const scopes = Array.from(new Set(sinkScopes.filter((v): v is VariableScope => !!v)));
+      if (scopes.length === 0) return { ...this.globals.values };
+      if (scopes.length === 1) return scopes[0].flatten();
+      const { scope: merged, conflicts } = mergeScopes(scopes, 'end of run');
+      conflicts.forEach(name => {
+          this.log(`Variable '${name}' was set differently by the branches the run ended on; using the last one.`, { level: 'warn' });
+      });
+      return merged.flatten();
+  }
+
+  private findSinks(scope: Set<string>, results: Map<string, NodeExecutionResult>): string[] {
+      return Array.from(results.keys()).filter(id =>
+          !this.edges.some(e => e.source === id && scope.has(e.target) && results.has(e.target))
+      );
+  }
+
+  /**
+   * Schedules the nodes of a scope as a DAG. A node runs exactly once, after all of
+   * its upstream nodes in the scope have finished. Edges leaving a failed node or an
+   * untaken branch are skipped; a node whose incoming edges were all skipped is
+   * skipped as well, so branches that were not taken never execute.
+   *
+   * Nodes with a single parent receive that parent's output as input; join nodes
+   * receive an object with the output of every parent keyed by source node id.
+   *
+   * Variable scopes follow the graph: a node fanning out to several nodes gives each
+   * of them a child branch scope, and a join merges the scopes of its parents.
+   *
+   * Independent branches run concurrently, limited by the workflow's maxConcurrency.
+   */
+  async runGraph(scope: Set<string>, entries: GraphEntry[]): Promise<Map<string, NodeExecutionResult>> {
+      const results = new Map<string, NodeExecutionResult>();
+      const edgeStates = new Map<Edge, 'taken' | 'skipped'>();
+      const parentOutputs = new Map<string, Map<string, any>>();
+      const parentScopes = new Map<string, VariableScope[]>();
+      const nodeScopes = new Map<string, VariableScope>();
+      const finished = new Set<string>();
+      const queued = new Set<string>();
+      const ready: string[] = [];
+
+      const entryIds = new Set(entries.map(e => e.nodeId));
+      entries.forEach(entry => {
+          if (!parentOutputs.has(entry.nodeId)) parentOutputs.set(entry.nodeId, new Map());
+          parentOutputs.get(entry.nodeId)!.set(entry.sourceId || entry.nodeId, entry.input);
+          parentScopes.set(entry.nodeId, [...(parentScopes.get(entry.nodeId) || []), entry.variables]);
+      });
+
+      const incomingEdges = (id: string) => this.edges.filter(e => e.target === id && scope.has(e.source));
+
+      const resolveOutgoing = (node: Node, result: NodeExecutionResult) => {
+          const targets = new Set<string>();
+          const takenTargets = new Set<string>();
+          this.getOutgoingEdges(node)
+              .filter(e => scope.has(e.target) && !this.isLoopBodyEdge(e, node))
+              .forEach(e => {
+                  // Without an explicit handle, successful nodes follow every edge except the error output
+                  const handle = getEdgeSourceHandle(e, node);
+                  const taken = result.activeHandle !== undefined
+                      ? handle === result.activeHandle
+                      : result.success && handle !== ERROR_HANDLE;
+                  edgeStates.set(e, taken ? 'taken' : 'skipped');
+                  if (taken) {
+                      if (!parentOutputs.has(e.target)) parentOutputs.set(e.target, new Map());
+                      parentOutputs.get(e.target)!.set(node.id, result.output);
+                      takenTargets.add(e.target);
+                  }
+                  targets.add(e.target);
+              });
+
+          // Fanning out starts a branch scope per target so parallel writes don't collide
+          const variables = nodeScopes.get(node.id);
+          if (variables) {
+              takenTargets.forEach(id => {
+                  const target = this.nodes.find(n => n.id === id);
+                  const branch = takenTargets.size > 1 ? variables.child('branch', `${node.data.label} → ${target?.data.label || id}`) : variables;
+                  parentScopes.set(id, [...(parentScopes.get(id) || []), branch]);
+              });
+          }
+          targets.forEach(id => enqueueIfReady(id));
+      };
+
+      const resolveScope = (node: Node): VariableScope => {
+          const scopes = Array.from(new Set(parentScopes.get(node.id) || []));
+          if (scopes.length === 0) return this.globals;
+          if (scopes.length === 1) return scopes[0];
+          const { scope: merged, conflicts } = mergeScopes(scopes, `${node.data.label} (join)`);
+          conflicts.forEach(name => {
+              this.log(`Variable '${name}' was set differently by the branches joining at ${node.data.label}; using the last one.`, { level: 'warn', nodeId: node.id });
+          });
+          return merged;
+      };
+
+      const enqueueIfReady = (id: string) => {
+          if (finished.has(id) || queued.has(id)) return;
+          const incoming = incomingEdges(id);
+          if (incoming.some(e => !edgeStates.has(e))) return;
+
+          const node = this.nodes.find(n => n.id === id);
+          if (!node) return;
+
+          if (entryIds.has(id) || incoming.some(e => edgeStates.get(e) === 'taken')) {
+              queued.add(id);
+              ready.push(id);
+          } else {
+              // Every path into this node was skipped
+              finished.add(id);
+              if (this.isCancelled) {
+                  this.emit({ type: 'node-cancelled', nodeId: id });
+              } else {
+                  this.log(`Skipping node: ${node.data.label} (no active input)`, { nodeId: id });
+              }
+              resolveOutgoing(node, { success: false });
+          }
+      };
+
+      const inFlight = new Set<Promise<void>>();
+
+      const launch = (id: string) => {
+          const node = this.nodes.find(n => n.id === id)!;
+          const inputs = parentOutputs.get(id) || new Map<string, any>();
+          const inputData = inputs.size === 1 ? inputs.values().next().value : Object.fromEntries(inputs);
+          const variables = resolveScope(node);
+          nodeScopes.set(id, variables);
+          // Loops only coordinate their body, whose nodes acquire slots themselves
+          const holdsSlot = node.type !== 'loop';
+
+          const task: Promise<void> = (async () => {
+              if (holdsSlot) await this.acquireSlot();
+              let result: NodeExecutionResult;
+              try {
+                  if (this.isCancelled) {
+                      this.emit({ type: 'node-cancelled', nodeId: id });
+                      result = { success: false, cancelled: true };
+                  } else if (this.replayedOutputs.has(id)) {
+                      result = this.useOutput(node, this.replayedOutputs.get(id), variables, 'previous output');
+                  } else {
+                      result = await this.executeNode(node, inputData, variables);
+                  }
+              } finally {
+                  if (holdsSlot) this.releaseSlot();
+              }
+              results.set(id, { ...result, variables });
+              finished.add(id);
+              resolveOutgoing(node, result);
+          })().finally(() => inFlight.delete(task));
+
+          inFlight.add(task);
+      };
+
+      entries.forEach(entry => enqueueIfReady(entry.nodeId));
+
+      while (ready.length > 0 || inFlight.size > 0) {
+          while (ready.length > 0) {
+              launch(ready.shift()!);
+          }
+          if (inFlight.size > 0) {
+              await Promise.race(inFlight);
+          }
+      }
+
+      const stalled = Array.from(scope).filter(id => !finished.has(id));
+      if (stalled.length > 0) {
+          const labels = stalled.map(id => this.nodes.find(n => n.id === id)?.data.label || id);
+          this.log(`${stalled.length} node(s) never became ready (circular dependency?): ${labels.join(', ')}`, { level: 'warn', data: { nodeIds: stalled } });
+      }
+
+      return results;
+  }
+
+  /**
+   * Validates the graph and logs every issue found.
+   * Returns false if there are errors that must block execution.
+   */
+  validate(): boolean {
+    this.validationIssues = validateWorkflow(this.nodes, this.edges);
+    this.validationIssues.forEach(issue => {
+      const node = issue.nodeId ? this.nodes.find(n => n.id === issue.nodeId) : undefined;
+      this.log(`${node ? `[${node.data.label}] ` : ''}${issue.message}`, { level: issue.severity === 'error' ? 'error' : 'warn', nodeId: issue.nodeId });
+    });
+    return !hasBlockingIssues(this.validationIssues);
+  }
+
+  /**
+   * Runs the workflow from its trigger. Resolves once the run has ended, with how
+   * it ended; the same result is emitted as a 'run-finished' event.
+   * A payload, when given, is used as the trigger's output instead of its simulation data.
+   * With `rerun`, only part of the workflow executes on top of a previous run's outputs.
+   */
+  async run(options: RunOptions = {}): Promise<RunResult> {
+    // Reset all statuses and variables
+    this.runId = crypto.randomUUID();
+    this.runStartedAt = Date.now();
+    this.logs = [];
+    this.executions = [];
+    this.costUsd = 0;
+    this.reservedUsd = 0;
+    this.triggerPayload = options.payload;
+    this.globals = new VariableScope('global', 'global');
+    this.abortController = new AbortController(); // A cancelled earlier run must not cancel this one
+    // Nor may a timed-out one's timer keep this run's from being armed
+    clearTimeout(this.runTimer);
+    this.runTimer = undefined;
+    this.failedNodeIds = [];
+    this.debugging = !!options.debug;
+    this.stepping = false;
+    this.replayedOutputs = new Map();
+    this.rerunTargetId = undefined;
+
+    const startNode = this.nodes.find(n => isTriggerType(n.type));
+    const scope = startNode ? this.collectScope([startNode.id]) : new Set<string>();
+    let rerunNotes: string[] = [];
+    let rerunError: string | undefined;
+    if (startNode && options.rerun) {
+      try {
+        rerunNotes = this.planRerun(options.rerun, scope);
+        // Replayed outputs are stored again as their nodes replay; this brings back everything else
+        Object.entries(options.rerun.variables || {}).forEach(([name, value]) => this.globals.set(name, value));
+      } catch (e: any) {
+        rerunError = e.message;
+      }
+    }
+    this.runScope = Array.from(scope);
+
+    // A partial run only resets the nodes it executes; the rest keep their previous output
+    const resetIds = options.rerun && !rerunError
+      ? this.withLoopBodies(Array.from(scope).filter(id => !this.replayedOutputs.has(id)))
+      : this.nodes.map(n => n.id);
+    this.emit({ type: 'run-started', runId: this.runId, nodeIds: resetIds, payload: options.payload });
+    this.log(options.rerun ? "Starting partial workflow execution..." : "Starting workflow execution...");
+    rerunNotes.forEach(note => this.log(note));
+
+    // 0. Validate graph (cycles, missing configuration, ...)
+    if (!this.validate()) {
+      this.log("Execution blocked: fix the errors above and run again.", { level: 'error' });
+      return this.finish('blocked');
+    }
     
-    // 1. Find Start Node (Webhook)
-    const startNode = this.nodes.find(n => n.type === 'webhook');
+    // 1. Start from the trigger (Webhook or Schedule)
     if (!startNode) {
-      this.log("Error: No Webhook/Start trigger found.");
-      return;
+      this.log("No Webhook/Start or Schedule trigger found.", { level: 'error' });
+      return this.finish('blocked');
+    }
+    if (rerunError) {
+      this.log(rerunError, { level: 'error' });
+      return this.finish('blocked');
     }
 
-    // Reset all statuses and variables
-    this.variables = {};
-    this.nodes = this.nodes.map(n => ({ ...n, data: { ...n.data, status: 'idle', outputValue: null, errorMessage: undefined } }));
-    this.setNodes([...this.nodes]);
+    this.logCostEstimate(scope);
+
+    // Stop everything once the whole-run limit is reached
+    this.runTimeLeft = this.settings.runTimeoutMs || 0;
+    this.startRunTimer();
+
+    // Schedule every node reachable from the trigger (or what a re-run needs of them)
+    let results = new Map<string, NodeExecutionResult>();
+    try {
+      results = await this.runGraph(scope, [{ nodeId: startNode.id, input: "Workflow triggered.", variables: this.globals }]);
+    } finally {
+      this.stopRunTimer();
+    }
 
-    // Start execution BFS/Traversal
-    await this.executeNode(startNode, "Workflow triggered.");
+    if (this.isCancelled) {
+      this.markRemainingCancelled(startNode.id);
+      if (this.runOverBudget) {
+        this.log(`Workflow execution stopped: the budget of ${formatCost(this.settings.budgetUsd!)} would have been exceeded.`, { level: 'error' });
+        return this.finish('over-budget', undefined, this.collectSinkVariables(scope, results));
+      }
+      this.log(this.runTimedOut ? "Workflow execution timed out." : "Workflow execution cancelled.", { level: this.runTimedOut ? 'error' : 'warn' });
+      return this.finish(this.runTimedOut ? 'timed-out' : 'cancelled', undefined, this.collectSinkVariables(scope, results));
+    }
     
     this.log("Workflow execution finished.");
-    this.log(`Final Global Variables: ${JSON.stringify(Object.keys(this.variables))}`);
+    const variables = this.collectSinkVariables(scope, results);
+    this.log(`Final Variables: ${JSON.stringify(Object.keys(variables))}`, { level: 'debug' });
+    // A condition before the re-run node can take another branch than last time
+    const targetSkipped = !!this.rerunTargetId && !results.has(this.rerunTargetId);
+    if (targetSkipped) {
+      const label = this.nodes.find(n => n.id === this.rerunTargetId)?.data.label || this.rerunTargetId;
+      this.log(`${label} did not run: no branch leading to it was taken this time.`, { level: 'warn', nodeId: this.rerunTargetId });
+    }
+    return this.finish(this.failedNodeIds.length > 0 || targetSkipped ? 'failed' : 'success', this.collectSinkOutputs(scope, results), variables);
   }
 
-  async executeNode(node: Node, inputData: any) {
-    this.updateNodeStatus(node.id, 'running');
-    this.log(`Executing node: ${node.data.label} (${node.type})`);
+  private finish(outcome: RunOutcome, output?: any, variables: Record<string, any> = { ...this.globals.values }): RunResult {
+    const stats = summarizeRun(this.executions, this.runScope, this.edges, Date.now() - this.runStartedAt);
+    if (this.executions.length > 0) this.logRunStats(stats);
+    const result: RunResult = { outcome, output, variables, failedNodeIds: [...this.failedNodeIds], stats };
+    this.emit({ type: 'run-finished', result });
+    return result;
+  }
 
-    let outputData = inputData;
+  private logCostEstimate(scope: Set<string>) {
+    const estimate = estimateWorkflowCost(this.nodes.filter(n => scope.has(n.id)), this.edges, this.settings.modelPrices);
+    if (estimate.nodes.length === 0) return;
+    const loopNote = estimate.nodes.some(n => n.perIteration) ? ', AI nodes inside loops counted once' : '';
+    this.log(`Estimated AI cost: ~${formatCost(estimate.totalUsd)}${loopNote}`, { data: estimate });
+    if (estimate.unpricedModels.length > 0) {
+      this.log(`No price known for ${estimate.unpricedModels.join(', ')}; their cost is counted as $0.`, { level: 'warn' });
+    }
+    const budget = this.settings.budgetUsd;
+    if (budget && estimate.totalUsd > budget) {
+      this.log(`Estimated cost exceeds the budget of ${formatCost(budget)}; the run will stop before the request that would exceed it.`, { level: 'warn' });
+    }
+  }
 
-    try {
-      // 1. Resolve Inputs (Prompt, URL, etc.) using Variables
+  private logRunStats(stats: RunStats) {
+    const label = (id: string) => this.nodes.find(n => n.id === id)?.data.label || id;
+    this.log(`Run took ${formatDuration(stats.durationMs)}. Critical path: ${stats.criticalPath.map(label).join(' → ')} (${formatDuration(stats.criticalPathMs)})`, { data: stats });
+    const models = Object.entries(stats.tokensByModel);
+    if (models.length > 0) {
+      const perModel = models.map(([model, usage]) => `${model}: ${usage.totalTokens} (${usage.promptTokens} prompt, ${usage.candidatesTokens} output)`);
+      this.log(`Tokens used: ${stats.totalTokens.totalTokens}, costing ${formatCost(stats.costUsd)}. ${perModel.join('; ')}`, { data: { tokensByModel: stats.tokensByModel, costByModel: stats.costByModel } });
+    }
+  }
+
+  /**
+   * Adds a node execution, ending now, to the run's metrics.
+   */
+  private recordExecution(node: Node, startedAt: number, model?: string, usage?: TokenUsage): NodeExecutionMetrics {
+    const finishedAt = Date.now();
+    const costUsd = model && usage ? costOfUsage(model, usage, this.settings.modelPrices) : undefined;
+    const execution: NodeExecutionMetrics = { nodeId: node.id, startedAt, finishedAt, durationMs: finishedAt - startedAt, model, usage, costUsd };
+    this.executions.push(execution);
+    return execution;
+  }
+
+  /**
+   * Narrows a run's scope to the node being re-run, the nodes after it (unless
+   * running only that node) and everything they depend on, and picks which of those
+   * dependencies replay their previous output. Returns notes to log about the plan.
+   * Nodes inside a loop body can't run on their own, so the loop is re-run instead.
+   */
+  private planRerun(rerun: RerunOptions, scope: Set<string>): string[] {
+    const notes: string[] = [];
+    let targetId = rerun.nodeId;
+    if (!scope.has(targetId)) {
+      const loop = this.findEnclosingLoop(targetId);
+      if (!loop) throw new Error(`Node '${targetId}' is not reachable from the trigger.`);
+      notes.push(`${this.nodes.find(n => n.id === targetId)?.data.label} is inside loop ${loop.data.label}; re-running the loop.`);
+      targetId = loop.id;
+    }
+    this.rerunTargetId = targetId;
+
+    const rerunIds = rerun.mode === 'only' ? new Set([targetId]) : this.collectScope([targetId]);
+    const needed = new Set(rerunIds);
+    const stack = Array.from(rerunIds);
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      this.edges
+        .filter(e => e.target === id && scope.has(e.source) && !needed.has(e.source))
+        .forEach(e => {
+          needed.add(e.source);
+          stack.push(e.source);
+        });
+    }
+
+    Array.from(scope).forEach(id => {
+      if (!needed.has(id)) {
+        scope.delete(id);
+        return;
+      }
+      const node = this.nodes.find(n => n.id === id)!;
+      if (rerunIds.has(id) || node.type === 'condition') return;
+      if (rerun.outputs.hasOwnProperty(id)) {
+        this.replayedOutputs.set(id, rerun.outputs[id]);
+      } else {
+        notes.push(`No previous output for ${node.data.label}; it will run again.`);
+      }
+    });
+    return notes;
+  }
+
+  /**
+   * The innermost loop whose body contains the node, if any.
+   */
+  findEnclosingLoop(nodeId: string): Node | undefined {
+    let enclosing: { loop: Node; size: number } | undefined;
+    this.nodes.filter(n => n.type === 'loop').forEach(loop => {
+      const bodyTargets = this.getOutgoingEdges(loop).filter(e => this.isLoopBodyEdge(e, loop)).map(e => e.target);
+      const body = this.collectScope(bodyTargets, loop.id);
+      if (body.has(nodeId) && (!enclosing || body.size < enclosing.size)) {
+        enclosing = { loop, size: body.size };
+      }
+    });
+    return enclosing?.loop;
+  }
+
+  /**
+   * The given nodes plus every node inside the bodies of the loops among them.
+   */
+  withLoopBodies(ids: string[]): string[] {
+    const result = new Set(ids);
+    const loops = this.nodes.filter(n => n.type === 'loop' && result.has(n.id));
+    while (loops.length > 0) {
+      const loop = loops.pop()!;
+      const bodyTargets = this.getOutgoingEdges(loop).filter(e => this.isLoopBodyEdge(e, loop)).map(e => e.target);
+      this.collectScope(bodyTargets, loop.id).forEach(id => {
+        const node = this.nodes.find(n => n.id === id);
+        if (node?.type === 'loop' && !result.has(id)) loops.push(node);
+        result.add(id);
+      });
+    }
+    return Array.from(result);
+  }
+
+  /**
+   * Stands in for executing a node (pinned output, re-run on a previous run): passes
+   * the given output on and stores it into variables exactly as executing it would.
+   * A loop given its output this way doesn't run its body.
+   */
+  useOutput(node: Node, output: any, variables: VariableScope, description: string): NodeExecutionResult {
+    this.log(`Using ${description} of ${node.data.label}`, { nodeId: node.id });
+    // Takes no time, but keeps the node on the critical path
+    this.recordExecution(node, Date.now());
+    this.storeOutput(node, output, variables);
+    this.emit({ type: 'node-succeeded', nodeId: node.id, output, attempts: 0 });
+    return { success: true, output, activeHandle: node.type === 'loop' ? 'done' : undefined, attempts: 0 };
+  }
+
+  /**
+   * After a cancelled run, flags every downstream node (including loop bodies) that never finished.
+   */
+  markRemainingCancelled(startId: string) {
+    const reachable = new Set<string>();
+    const stack = [startId];
+    while (stack.length > 0) {
+      const id = stack.pop()!;
+      if (reachable.has(id)) continue;
+      reachable.add(id);
+      this.edges.filter(e => e.source === id).forEach(e => stack.push(e.target));
+    }
+
+    this.nodes
+      .filter(n => reachable.has(n.id) && (n.data.status === 'idle' || n.data.status === 'running' || n.data.status === 'paused'))
+      .forEach(n => this.emit({ type: 'node-cancelled', nodeId: n.id }));
+  }
+
+  /**
+   * Returns a copy of the node's data with {{placeholders}} in its prompt, API
+   * request and inputs resolved against the given scope.
+   */
+  resolveNodeData(node: Node, variables: VariableScope, logWarnings = true): NodeData {
       const processedNodeData = { ...node.data };
       
       // Resolve textual prompt
       if (processedNodeData.prompt) {
-          processedNodeData.prompt = this.resolveVariables(processedNodeData.prompt);
+          processedNodeData.prompt = this.resolveVariables(processedNodeData.prompt, variables);
       }
       
-      // Resolve API URL
+      // Resolve API URL, headers, query params and body
       if (processedNodeData.apiUrl) {
-          processedNodeData.apiUrl = this.resolveVariables(processedNodeData.apiUrl);
+          processedNodeData.apiUrl = this.resolveVariables(processedNodeData.apiUrl, variables);
+      }
+      if (processedNodeData.apiHeaders) {
+          processedNodeData.apiHeaders = processedNodeData.apiHeaders.map(h => ({ ...h, value: this.resolveVariables(h.value, variables) }));
+      }
+      if (processedNodeData.apiQueryParams) {
+          processedNodeData.apiQueryParams = processedNodeData.apiQueryParams.map(p => ({ ...p, value: this.resolveVariables(p.value, variables) }));
+      }
+      if (processedNodeData.apiBody) {
+          processedNodeData.apiBody = this.resolveVariables(processedNodeData.apiBody, variables);
       }
 
       // Resolve Input Images (Support New Multi-Input and Legacy Single Input)
       if (processedNodeData.inputs && processedNodeData.inputs.length > 0) {
-          processedNodeData.inputs = this.resolveInputs(processedNodeData.inputs);
+          processedNodeData.inputs = this.resolveInputs(processedNodeData.inputs, variables, logWarnings);
       } else {
           // Fallback to legacy single input resolution
-          processedNodeData.inputImage = this.resolveInputImage(processedNodeData);
+          processedNodeData.inputImage = this.resolveInputImage(processedNodeData, variables);
       }
+      return processedNodeData;
+  }
 
-      switch (node.type) {
-        case 'webhook':
-          if (processedNodeData.webhookContentType === 'form-data') {
-              // Construct object from form fields
-              const formDataObj: Record<string, any> = {};
-              (processedNodeData.webhookFormData || []).forEach((field: any) => {
-                  if (field.key) {
-                      formDataObj[field.key] = field.value;
-                  }
-              });
-              outputData = formDataObj;
-              this.log("Loaded simulation Form-Data payload.");
-          } else {
-              // Default to JSON
-              if (processedNodeData.webhookPayload) {
-                 try {
-                     outputData = JSON.parse(processedNodeData.webhookPayload);
-                     this.log("Loaded simulation JSON payload.");
-                 } catch (e) {
-                     this.log("Error parsing Webhook payload, using default.");
-                     outputData = { error: "Invalid JSON Payload", raw: processedNodeData.webhookPayload };
-                 }
-              } else {
-                 outputData = { trigger: 'manual', timestamp: Date.now() };
-              }
-          }
-          break;
-
-        case 'ai-text':
-          // Pass context from previous node + prompt
-          const textContext = this.getSafeContext(inputData);
-          if (!processedNodeData.model) processedNodeData.model = 'gemini-2.5-flash';
-          outputData = await executeAiNode(processedNodeData, textContext);
-          break;
-
-        case 'ai-image':
-          this.log("Requesting image generation/editing...");
-          const imageContext = this.getSafeContext(inputData);
-          if (!processedNodeData.model) processedNodeData.model = 'gemini-2.5-flash-image';
-          outputData = await executeAiNode(processedNodeData, imageContext);
-          break;
-
-        case 'variable':
-          outputData = inputData;
-          break;
-        
-        case 'api':
-           this.log(`Calling API: ${processedNodeData.apiUrl || 'No URL'}`);
-           // Simulate API call
-           await new Promise(r => setTimeout(r, 1000));
-           outputData = { status: 200, data: { mock: "result" } };
-           break;
-
-        case 'condition':
-           const condition = processedNodeData.condition || '';
-           this.log(`Checking condition: ${condition}`);
-           // Logic to be implemented. For now pass through.
-           break;
-
-        default:
-          break;
+  /**
+   * Executes a single node within a variable scope. Following its outgoing edges is
+   * up to the scheduler (runGraph).
+   */
+  async executeNode(node: Node, inputData: any, variables: VariableScope = this.globals): Promise<NodeExecutionResult> {
+    this.emit({ type: 'node-started', nodeId: node.id, input: inputData });
+    if (isOutputPinned(node)) {
+      return this.useOutput(node, node.data.pinnedOutput, variables, 'pinned output');
+    }
+    this.log(`Executing node: ${node.data.label} (${node.type})`, { nodeId: node.id });
+
+    let attempt = 1;
+    let startedAt = Date.now();
+
+    try {
+      if (this.debugging && (node.data.breakpoint || this.stepping)) {
+          await this.pauseBefore(node, inputData, variables);
+          startedAt = Date.now();
       }
 
-      // 2. Store Output in Global Variables if configured
-      // 2a. Primary Output Variable
-      if (node.data.outputVariableName) {
-          const varName = node.data.outputVariableName.trim();
-          if (varName) {
-              this.variables[varName] = outputData;
-              this.log(`Stored output to variable '${varName}'`);
+      // 1. Resolve Inputs (Prompt, URL, etc.) using Variables
+      const processedNodeData = this.resolveNodeData(node, variables);
+
+      // 2. Run the node, retrying transient failures according to its retry policy
+      const policy = node.data.retryPolicy;
+      const maxAttempts = getMaxAttempts(policy);
+      const timeoutMs = this.getNodeTimeout(node);
+      let execution: NodePerformance;
+
+      for (attempt = 1; ; attempt++) {
+          if (maxAttempts > 1) {
+              this.emit({ type: 'node-attempt', nodeId: node.id, attempt, maxAttempts });
+              this.log(`Attempt ${attempt} of ${maxAttempts} for ${node.data.label}`, { level: 'debug', nodeId: node.id });
+          }
+          try {
+              execution = await this.runWithTimeout(
+                  `Node ${node.data.label}`,
+                  timeoutMs,
+                  signal => this.performNode(node, processedNodeData, inputData, signal, variables)
+              );
+              break;
+          } catch (err: any) {
+              if (this.isCancelled || !shouldRetry(policy, err, attempt)) throw err;
+              const delay = getBackoffDelay(policy!, attempt);
+              this.log(`Attempt ${attempt} of ${node.data.label} failed (${classifyError(err)}): ${err.message}. Retrying in ${delay}ms...`, { level: 'warn', nodeId: node.id, data: { attempt, category: classifyError(err), delayMs: delay } });
+              await this.sleep(delay);
           }
       }
 
-      // 2b. Mapped JSON Fields
-      if (node.data.outputMappings && node.data.outputMappings.length > 0) {
-          if (typeof outputData === 'object' && outputData !== null) {
-               node.data.outputMappings.forEach(mapping => {
-                   if (mapping.field && mapping.variable) {
-                       const fieldName = mapping.field.trim();
-                       const varName = mapping.variable.trim();
-                       
-                       if (outputData.hasOwnProperty(fieldName)) {
-                           this.variables[varName] = outputData[fieldName];
-                           this.log(`Stored field '${fieldName}' to variable '${varName}'`);
-                       } else {
-                           this.log(`Warning: Field '${fieldName}' not found in output.`);
-                       }
-                   }
-               });
-          } else {
-               this.log(`Warning: Output Mappings ignored because output is not an object.`);
-          }
+      const outputData = execution.output;
+      const activeHandle = execution.activeHandle;
+      const { durationMs, costUsd } = this.recordExecution(node, startedAt, processedNodeData.model, execution.usage);
+
+      // 3. Store Output in the node's scope (or the run-level one) if configured
+      this.storeOutput(node, outputData, variables);
+
+      // Sub-workflows show what their nested run used; its executions are in the metrics already
+      const usage = execution.nested ? execution.nested.usage : execution.usage;
+      const cost = execution.nested ? execution.nested.costUsd : costUsd;
+      this.emit({ type: 'node-succeeded', nodeId: node.id, output: outputData, attempts: attempt, durationMs, usage, costUsd: cost });
+      this.log(`Node ${node.data.label} completed in ${formatDuration(durationMs)}.`, { nodeId: node.id, data: { durationMs, usage, costUsd: cost } });
+      return { success: true, output: outputData, activeHandle, attempts: attempt };
+
+    } catch (err: any) {
+      if (this.runTimedOut) {
+        // Run timeout: in-flight nodes fail like any other error
+        err = this.abortController.signal.reason;
+      } else if (!(err instanceof BudgetExceededError) && (isCancelledError(err) || this.isCancelled)) {
+        // Includes nodes interrupted when another one hit the budget
+        this.emit({ type: 'node-cancelled', nodeId: node.id });
+        this.log(`Node ${node.data.label} cancelled.`, { level: 'warn', nodeId: node.id });
+        return { success: false, cancelled: true };
       }
+      // Route the failure to the error output when something is connected to it
+      const hasErrorBranch = !!node.data.errorHandle && !this.isCancelled
+        && this.getOutgoingEdges(node).some(e => getEdgeSourceHandle(e, node) === ERROR_HANDLE);
+      const { durationMs } = this.recordExecution(node, startedAt);
+      this.emit({ type: 'node-failed', nodeId: node.id, error: err.message, attempts: attempt, handled: hasErrorBranch, durationMs });
+      // The stack goes into the log entry rather than the console, so headless runs can keep quiet
+      this.log(`Node ${node.data.label} failed: ${err.message}`, { level: 'error', nodeId: node.id, data: { category: classifyError(err), attempts: attempt, handled: hasErrorBranch, stack: err.stack } });
 
-      this.updateNodeStatus(node.id, 'success', outputData);
-      this.log(`Node ${node.data.label} completed.`);
+      if (hasErrorBranch) {
+        const errorOutput: NodeErrorOutput = {
+          message: err.message,
+          nodeId: node.id,
+          nodeLabel: node.data.label,
+          category: classifyError(err),
+          attempts: attempt,
+          input: inputData
+        };
+        this.log(`Following error branch of ${node.data.label}.`, { nodeId: node.id });
+        return { success: false, error: err.message, attempts: attempt, output: errorOutput, activeHandle: ERROR_HANDLE };
+      }
+      this.failedNodeIds.push(node.id);
+      return { success: false, error: err.message, attempts: attempt };
+    }
+  }
 
-      // Find next nodes
-      const outgoingEdges = this.edges.filter(e => e.source === node.id);
-      
-      for (const edge of outgoingEdges) {
-        const nextNode = this.nodes.find(n => n.id === edge.target);
-        if (nextNode) {
-          await this.executeNode(nextNode, outputData);
+  /**
+   * Writes a node's output to the variables it is configured to store into, in the
+   * node's scope or the run-level one.
+   */
+  storeOutput(node: Node, outputData: any, variables: VariableScope) {
+    const target = node.data.storeGlobally ? this.globals : variables;
+    // 3a. Primary Output Variable
+    if (node.data.outputVariableName) {
+        const varName = node.data.outputVariableName.trim();
+        if (varName) {
+            target.set(varName, outputData);
+            this.emit({ type: 'variable-set', nodeId: node.id, name: varName, value: outputData, scope: target.kind, scopeLabel: target.label });
+            this.log(`Stored output to variable '${varName}' (${target.label} scope)`, { level: 'debug', nodeId: node.id, data: { name: varName, value: outputData } });
+        }
+    }
+
+    // 3b. Mapped JSON Fields
+    if (node.data.outputMappings && node.data.outputMappings.length > 0) {
+        if (typeof outputData === 'object' && outputData !== null) {
+             node.data.outputMappings.forEach(mapping => {
+                 if (mapping.field && mapping.variable) {
+                     const fieldName = mapping.field.trim();
+                     const varName = mapping.variable.trim();
+
+                     if (outputData.hasOwnProperty(fieldName)) {
+                         target.set(varName, outputData[fieldName]);
+                         this.emit({ type: 'variable-set', nodeId: node.id, name: varName, value: outputData[fieldName], scope: target.kind, scopeLabel: target.label });
+                         this.log(`Stored field '${fieldName}' to variable '${varName}' (${target.label} scope)`, { level: 'debug', nodeId: node.id, data: { name: varName, value: outputData[fieldName] } });
+                     } else {
+                         this.log(`Field '${fieldName}' not found in output.`, { level: 'warn', nodeId: node.id });
+                     }
+                 }
+             });
+        } else {
+             this.log(`Output Mappings ignored because output is not an object.`, { level: 'warn', nodeId: node.id });
         }
+    }
+  }
+
+  /**
+   * Calls Gemini for an AI node, going through the response cache when the node
+   * opts in. Cache failures are logged and fall back to a normal request.
+   * Cached responses report no token usage since no request was made.
+   */
+  async executeAiRequest(node: Node, processedNodeData: NodeData, context: string, signal: AbortSignal): Promise<AiResponse> {
+    const request = buildAiRequest(processedNodeData, context);
+    let cache = node.data.useCache ? this.responseCache : undefined;
+    let key = '';
+    if (cache) {
+      try {
+        key = await getRequestKey(request);
+      } catch (e: any) {
+        // e.g. crypto.subtle is missing on pages not served over HTTPS or localhost
+        this.log(`Could not compute the response cache key, not using the cache: ${e.message}`, { level: 'warn', nodeId: node.id });
+        cache = undefined;
       }
+    }
+    if (cache) {
+      try {
+        const cached = await cache.get(key);
+        if (cached !== undefined) {
+          this.log(`Cache hit for ${node.data.label} (${key.slice(0, 12)})`, { nodeId: node.id, data: { key } });
+          return { output: cached };
+        }
+      } catch (e: any) {
+        this.log(`Response cache lookup failed: ${e.message}`, { level: 'warn', nodeId: node.id });
+      }
+      this.log(`Cache miss for ${node.data.label} (${key.slice(0, 12)}), calling ${request.model}...`, { nodeId: node.id, data: { key } });
+    }
 
-    } catch (err: any) {
-      console.error(err);
-      this.updateNodeStatus(node.id, 'error', undefined, err.message);
-      this.log(`Error in node ${node.data.label}: ${err.message}`);
+    const response = await this.sendWithinBudget(request, () => executeAiNode(processedNodeData, context, signal, request));
+    // An empty generation may not repeat, so it isn't replayed on later runs
+    if (cache && response.empty) {
+      this.log(`Not caching the response for ${node.data.label}: nothing was generated.`, { level: 'debug', nodeId: node.id });
+    } else if (cache) {
+      try {
+        await cache.set(key, response.output);
+      } catch (e: any) {
+        this.log(`Could not store response in cache: ${e.message}`, { level: 'warn', nodeId: node.id });
+      }
+    }
+    return response;
+  }
+
+  /**
+   * Runs a saved workflow with a nested engine. The node's inputs become its trigger
+   * payload and its declared output variables the node's output (its final output
+   * when it declares none). The nested log is forwarded under this node, and its AI
+   * usage counts towards this run's metrics and budget. Breakpoints inside it are ignored.
+   */
+  async executeSubWorkflow(node: Node, processedNodeData: NodeData, variables: VariableScope, signal: AbortSignal): Promise<{ output: any; nested: NestedRunUsage }> {
+    const workflowName = processedNodeData.subWorkflowName?.trim();
+    if (!workflowName) throw new Error('No sub-workflow selected.');
+    const callPath = [...this.callPath, workflowName];
+    if (callPath.length > MAX_SUBWORKFLOW_DEPTH) {
+      throw new Error(`Sub-workflows are nested more than ${MAX_SUBWORKFLOW_DEPTH} deep: ${callPath.join(' → ')}.`);
     }
+    if (!this.workflowLibrary) throw new Error(`No workflow library to load '${workflowName}' from.`);
+    const workflow = await this.workflowLibrary.get(workflowName);
+    if (!workflow) throw new Error(`Saved workflow '${workflowName}' not found.`);
+
+    const payload: Record<string, any> = {};
+    (processedNodeData.subWorkflowInputs || []).forEach(input => {
+      const key = input.key.trim();
+      if (key) payload[key] = this.resolveTemplateValue(input.value, variables);
+    });
+
+    // The nested run may spend what is left of this run's budget, when it has one
+    const settings: WorkflowSettings = { ...workflow.settings };
+    const budget = this.settings.budgetUsd;
+    const remainingUsd = budget ? budget - this.costUsd - this.reservedUsd : undefined;
+    const limitedByParent = remainingUsd !== undefined && (!settings.budgetUsd || remainingUsd < settings.budgetUsd);
+    if (limitedByParent) settings.budgetUsd = Math.max(remainingUsd!, Number.EPSILON); // 0 would mean no budget
+
+    const engine = new WorkflowEngine(workflow.nodes, workflow.edges, settings);
+    engine.fetchImpl = this.fetchImpl;
+    engine.responseCache = this.responseCache;
+    engine.workflowLibrary = this.workflowLibrary;
+    engine.callPath = callPath;
+    engine.subscribe(event => {
+      if (event.type !== 'log') return;
+      this.log(event.message, {
+        level: event.level,
+        nodeId: node.id,
+        data: event.data,
+        subWorkflow: event.subWorkflow
+          ? { ...event.subWorkflow, path: [workflowName, ...event.subWorkflow.path] }
+          : { path: [workflowName], runId: engine.runId, nodeId: event.nodeId }
+      });
+    });
+
+    this.log(`Running sub-workflow '${workflowName}'...`, { nodeId: node.id, data: { payload } });
+    const onAbort = () => engine.cancel();
+    signal.addEventListener('abort', onAbort);
+    let result: RunResult;
+    try {
+      result = await engine.run({ payload });
+    } finally {
+      signal.removeEventListener('abort', onAbort);
+    }
+
+    // Nested node ids are prefixed with this node's so they can't clash with this workflow's
+    this.executions.push(...engine.executions.map(e => ({ ...e, nodeId: `${node.id}/${e.nodeId}` })));
+    this.costUsd += engine.costUsd;
+
+    if (result.outcome !== 'success') {
+      // Cancelled with this run, or stopped by the node's timeout (reported by runWithTimeout)
+      if (signal.aborted) throw new CancelledError();
+      if (result.outcome === 'over-budget' && limitedByParent) {
+        const error = new BudgetExceededError(`Sub-workflow '${workflowName}' would have exceeded the run budget of ${formatCost(budget!)}.`);
+        this.abortController.abort(error);
+        throw error;
+      }
+      const failed = engine.nodes.find(n => result.failedNodeIds.includes(n.id));
+      if (!failed) throw new Error(`Sub-workflow '${workflowName}' ended with outcome '${result.outcome}'; see its log.`);
+      // A failure further down already names the workflow and node it happened in
+      if (failed.type === 'sub-workflow') throw new Error(failed.data.errorMessage);
+      throw new Error(`Sub-workflow '${workflowName}' failed at ${failed.data.label}: ${failed.data.errorMessage}`);
+    }
+
+    // Outputs may be set on any branch; the run's variables merge every branch it ended on
+    const declared = workflow.settings?.outputVariables || [];
+    const runVariables = result.variables;
+    let output = result.output;
+    if (declared.length > 0) {
+      output = {};
+      declared.forEach(name => {
+        if (runVariables.hasOwnProperty(name)) {
+          output[name] = runVariables[name];
+        } else {
+          this.log(`Sub-workflow '${workflowName}' did not set its output variable '${name}'.`, { level: 'warn', nodeId: node.id });
+        }
+      });
+    }
+    this.log(`Sub-workflow '${workflowName}' finished in ${formatDuration(result.stats.durationMs)}.`, { nodeId: node.id, data: { runId: engine.runId, output } });
+
+    const totalTokens = result.stats.totalTokens;
+    return { output, nested: { usage: totalTokens.totalTokens > 0 ? totalTokens : undefined, costUsd: engine.costUsd } };
+  }
+
+  /**
+   * Sends an AI request unless its expected cost would take the run past its budget,
+   * in which case the run is stopped instead. The expected cost is held against the
+   * budget while the request is in flight, so parallel requests can't overshoot it together.
+   */
+  private async sendWithinBudget(request: AiRequest, send: () => Promise<AiResponse>): Promise<AiResponse> {
+    const prices = this.settings.modelPrices;
+    const budget = this.settings.budgetUsd;
+    const estimate = estimateRequestCost(request, prices).costUsd;
+    if (budget && this.costUsd + this.reservedUsd + estimate > budget) {
+      const error = new BudgetExceededError(`Calling ${request.model} (~${formatCost(estimate)}) would exceed the run budget of ${formatCost(budget)} (${formatCost(this.costUsd + this.reservedUsd)} spent or in flight).`);
+      this.abortController.abort(error);
+      throw error;
+    }
+
+    this.reservedUsd += estimate;
+    try {
+      const response = await send();
+      if (response.usage) this.costUsd += costOfUsage(request.model, response.usage, prices);
+      return response;
+    } finally {
+      this.reservedUsd -= estimate;
+    }
+  }
+
+  /**
+   * Performs the type-specific work of a node on its already-resolved data.
+   * Branching nodes return the handle whose edges should be followed.
+   * The signal aborts on cancellation or when the node's timeout elapses.
+   * AI nodes also return the tokens their request used.
+   */
+  async performNode(node: Node, processedNodeData: NodeData, inputData: any, signal: AbortSignal, variables: VariableScope): Promise<NodePerformance> {
+    let outputData = inputData;
+    // Set by branching nodes to restrict which outgoing edges are followed
+    let activeHandle: string | undefined;
+    let usage: TokenUsage | undefined;
+    let nested: NestedRunUsage | undefined;
+
+    switch (node.type) {
+      case 'webhook':
+        if (this.triggerPayload !== undefined) {
+            // A real request (CLI, webhook server) replaces the simulated payload
+            outputData = this.triggerPayload;
+            this.log("Received trigger payload.", { nodeId: node.id });
+        } else if (processedNodeData.webhookContentType === 'form-data') {
+            // Construct object from form fields
+            const formDataObj: Record<string, any> = {};
+            (processedNodeData.webhookFormData || []).forEach((field: any) => {
+                if (field.key) {
+                    formDataObj[field.key] = field.value;
+                }
+            });
+            outputData = formDataObj;
+            this.log("Loaded simulation Form-Data payload.", { nodeId: node.id });
+        } else {
+            // Default to JSON
+            if (processedNodeData.webhookPayload) {
+               try {
+                   outputData = JSON.parse(processedNodeData.webhookPayload);
+                   this.log("Loaded simulation JSON payload.", { nodeId: node.id });
+               } catch (e) {
+                   this.log("Could not parse Webhook payload, using default.", { level: 'warn', nodeId: node.id });
+                   outputData = { error: "Invalid JSON Payload", raw: processedNodeData.webhookPayload };
+               }
+            } else {
+               outputData = { trigger: 'manual', timestamp: Date.now() };
+            }
+        }
+        break;
+
+      case 'schedule':
+        if (this.triggerPayload !== undefined) {
+            // Fired by a scheduler, which passes the time it fired for, or a request to the webhook server
+            outputData = this.triggerPayload;
+            this.log(outputData?.scheduledTime
+              ? `Scheduled run for ${outputData.scheduledTime}${outputData.missed ? ' (missed while not running)' : ''}.`
+              : "Received trigger payload.", { nodeId: node.id });
+        } else {
+            const now = new Date().toISOString();
+            const manual: ScheduleTriggerOutput = {
+                scheduledTime: now,
+                firedAt: now,
+                timezone: processedNodeData.scheduleTimezone || getLocalTimeZone(),
+                cron: processedNodeData.scheduleCron || '',
+                missed: false,
+                manual: true
+            };
+            outputData = manual;
+            this.log("Started manually; using the current time as the trigger time.", { nodeId: node.id });
+        }
+        break;
+
+      case 'ai-text':
+        // Pass context from previous node + prompt
+        const textContext = this.getSafeContext(inputData);
+        if (!processedNodeData.model) processedNodeData.model = 'gemini-2.5-flash';
+        ({ output: outputData, usage } = await this.executeAiRequest(node, processedNodeData, textContext, signal));
+        break;
+
+      case 'ai-image':
+        this.log("Requesting image generation/editing...", { nodeId: node.id });
+        const imageContext = this.getSafeContext(inputData);
+        if (!processedNodeData.model) processedNodeData.model = 'gemini-2.5-flash-image';
+        ({ output: outputData, usage } = await this.executeAiRequest(node, processedNodeData, imageContext, signal));
+        break;
+
+      case 'variable':
+        outputData = inputData;
+        break;
+      
+      case 'api':
+         const method = processedNodeData.apiMethod || 'GET';
+         this.log(`Calling API: ${method} ${processedNodeData.apiUrl || 'No URL'}`, { nodeId: node.id });
+         outputData = await executeHttpRequest({
+             url: processedNodeData.apiUrl || '',
+             method,
+             headers: processedNodeData.apiHeaders,
+             queryParams: processedNodeData.apiQueryParams,
+             body: processedNodeData.apiBody,
+             failOnError: processedNodeData.apiFailOnError,
+             signal
+         }, this.fetchImpl);
+         this.log(`API responded with ${outputData.status} ${outputData.statusText}`, { nodeId: node.id, data: { status: outputData.status, headers: outputData.headers } });
+         break;
+
+      case 'condition':
+         const condition = processedNodeData.condition || '';
+         const result = evaluateCondition(condition, { variables: variables.flatten(), input: inputData });
+         activeHandle = result ? 'true' : 'false';
+         this.log(`Condition '${condition || '(input)'}' evaluated to ${result}`, { nodeId: node.id, data: { condition, result } });
+         // Input passes through unchanged to whichever branch is taken
+         break;
+
+      case 'loop':
+         const items = this.resolveLoopArray(processedNodeData.loopArray, inputData, variables);
+         this.log(`Looping over ${items.length} item(s)...`, { nodeId: node.id });
+         outputData = await this.executeLoop(node, items, variables);
+         activeHandle = 'done';
+         break;
+
+      case 'sub-workflow':
+         ({ output: outputData, nested } = await this.executeSubWorkflow(node, processedNodeData, variables, signal));
+         break;
+
+      default:
+        break;
+    }
+
+    return { output: outputData, activeHandle, usage, nested };
   }
 }
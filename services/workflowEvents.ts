@@ -0,0 +1,145 @@
+import { Node, NodeData, NodeMetrics, ScopeKind, TokenUsage } from '../types';
+import { RunStats, addTokenUsage } from './runMetrics';
+
+/**
+ * How a run ended.
+ *   - success: every node that ran either succeeded or had its failure routed to an error branch
+ *   - failed: at least one node failed with nothing handling it
+ *   - blocked: validation errors prevented the run from starting
+ *   - over-budget: stopped before an AI request that would have exceeded the run's budget
+ */
+export type RunOutcome = 'success' | 'failed' | 'cancelled' | 'timed-out' | 'blocked' | 'over-budget';
+
+export interface RunResult {
+    outcome: RunOutcome;
+    output?: any; // Output of the node(s) the run ended on, keyed by node id when there are several
+    variables: Record<string, any>; // Variables visible where the run ended, with those set on its branches merged in
+    failedNodeIds: string[];
+    stats: RunStats;
+}
+
+/**
+ * What a debug run shows for a node it paused before: the node's fields with
+ * {{placeholders}} resolved, and the variables visible to it.
+ */
+export interface NodeDebugSnapshot {
+    input: any;
+    resolved: Partial<Pick<NodeData, 'prompt' | 'apiMethod' | 'apiUrl' | 'apiHeaders' | 'apiQueryParams' | 'apiBody' | 'inputs' | 'inputImage' | 'condition' | 'loopArray'>>;
+    resolveError?: string; // Why the fields could not be resolved, e.g. a missing variable
+    variables: Record<string, any>;
+    scopeLabel: string;
+}
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+/**
+ * One line of the execution log. Entries logged outside a run (e.g. by the editor)
+ * have no run id.
+ */
+export interface LogEntry {
+    timestamp: number;
+    level: LogLevel;
+    runId?: string;
+    nodeId?: string;
+    message: string;
+    data?: any; // Structured details, e.g. the value stored or the error category
+    subWorkflow?: NestedLogSource; // Set on entries forwarded from a sub-workflow's run; nodeId is then the calling node
+}
+
+// Where a forwarded log entry came from inside nested sub-workflow runs
+export interface NestedLogSource {
+    path: string[]; // Sub-workflow names, outermost first
+    runId: string; // The nested run that logged it
+    nodeId?: string; // Node of the nested workflow
+}
+
+/**
+ * Everything the engine reports while running. UIs, CLIs and tests subscribe to
+ * these instead of the engine writing to any particular state container.
+ */
+export type WorkflowEvent =
+    | { type: 'run-started'; runId: string; nodeIds: string[]; payload?: any }
+    | { type: 'run-finished'; result: RunResult }
+    | { type: 'node-started'; nodeId: string; input: any }
+    | { type: 'node-attempt'; nodeId: string; attempt: number; maxAttempts: number }
+    | { type: 'node-succeeded'; nodeId: string; output: any; attempts: number; durationMs?: number; usage?: TokenUsage; costUsd?: number } // No duration when the output was pinned or replayed
+    | { type: 'node-failed'; nodeId: string; error: string; attempts: number; handled: boolean; durationMs: number }
+    | { type: 'node-cancelled'; nodeId: string }
+    | { type: 'node-paused'; nodeId: string; snapshot: NodeDebugSnapshot }
+    | { type: 'node-resumed'; nodeId: string }
+    | { type: 'variable-set'; nodeId: string; name: string; value: any; scope: ScopeKind; scopeLabel: string }
+    | ({ type: 'log' } & LogEntry);
+
+export type WorkflowEventType = WorkflowEvent['type'];
+
+export type WorkflowEventListener = (event: WorkflowEvent) => void;
+
+/**
+ * Anything that emits workflow events. `subscribe` returns a function that removes the listener.
+ */
+export interface WorkflowEventSource {
+    subscribe(listener: WorkflowEventListener): () => void;
+}
+
+// Adds one execution to a node's metrics; loop bodies execute once per iteration
+const addExecution = (metrics: NodeMetrics | undefined, durationMs: number | undefined, usage?: TokenUsage, costUsd?: number): NodeMetrics | undefined => {
+    if (durationMs === undefined) return metrics;
+    return {
+        durationMs: (metrics?.durationMs ?? 0) + durationMs,
+        executions: (metrics?.executions ?? 0) + 1,
+        usage: usage ? addTokenUsage(metrics?.usage, usage) : metrics?.usage,
+        costUsd: costUsd !== undefined ? (metrics?.costUsd ?? 0) + costUsd : metrics?.costUsd
+    };
+};
+
+/**
+ * Applies a node event to a node list, returning the list unchanged for other events.
+ * Lets a UI mirror run progress on its own copy of the nodes.
+ */
+export const applyWorkflowEvent = (nodes: Node[], event: WorkflowEvent): Node[] => {
+    const patch = (id: string, data: Partial<Node['data']> | ((current: Node['data']) => Partial<Node['data']>)) =>
+        nodes.map(n => n.id === id ? { ...n, data: { ...n.data, ...(typeof data === 'function' ? data(n.data) : data) } } : n);
+
+    switch (event.type) {
+        case 'run-started':
+            return nodes.map(n => event.nodeIds.includes(n.id)
+                ? { ...n, data: { ...n.data, status: 'idle', outputValue: null, errorMessage: undefined, attempt: undefined, metrics: undefined } }
+                : n);
+        case 'node-started':
+            return patch(event.nodeId, { status: 'running', errorMessage: undefined });
+        case 'node-paused':
+            return patch(event.nodeId, { status: 'paused' });
+        case 'node-resumed':
+            return patch(event.nodeId, { status: 'running' });
+        case 'node-attempt':
+            return patch(event.nodeId, { attempt: event.attempt });
+        case 'node-succeeded':
+            return patch(event.nodeId, current => ({ status: 'success', outputValue: event.output, errorMessage: undefined, metrics: addExecution(current.metrics, event.durationMs, event.usage, event.costUsd) }));
+        case 'node-failed':
+            return patch(event.nodeId, current => ({ status: 'error', errorMessage: event.error, metrics: addExecution(current.metrics, event.durationMs) }));
+        case 'node-cancelled':
+            return patch(event.nodeId, { status: 'cancelled', errorMessage: undefined });
+        default:
+            return nodes;
+    }
+};
+
+const LEVEL_PREFIXES: Record<LogLevel, string> = { debug: '', info: '', warn: 'Warning: ', error: 'Error: ' };
+
+/**
+ * A log entry as one line of text, e.g. `[10:32:01] Warning: Field 'x' not found in output.`
+ * Entries from sub-workflows name them first: `[10:32:01] [Upscale] Node Resize completed in 2s.`
+ */
+export const formatLogEntry = (entry: LogEntry): string => {
+    const source = entry.subWorkflow ? `[${entry.subWorkflow.path.join(' › ')}] ` : '';
+    return `[${new Date(entry.timestamp).toLocaleTimeString()}] ${source}${LEVEL_PREFIXES[entry.level]}${entry.message}`;
+};
+
+/**
+ * The log as JSON Lines, one entry per line.
+ */
+export const toJsonLines = (entries: LogEntry[]): string => {
+    return entries.map(entry => JSON.stringify(entry)).join('\n') + (entries.length > 0 ? '\n' : '');
+};
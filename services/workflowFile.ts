@@ -0,0 +1,38 @@
+import { Node, Edge, WorkflowSettings } from '../types';
+
+/**
+ * Shape of the JSON produced by Export (and stored by Save). Nodes keep all of
+ * their data, pinned outputs included, so a pinned node stays pinned wherever the
+ * workflow is run.
+ */
+export interface WorkflowFile {
+    nodes: Node[];
+    edges: Edge[];
+    settings?: WorkflowSettings;
+    exportedAt?: string;
+}
+
+export const serializeWorkflow = (workflow: WorkflowFile): string => {
+    return JSON.stringify({ ...workflow, exportedAt: new Date().toISOString() }, null, 2);
+};
+
+/**
+ * Parses an exported workflow, throwing if it isn't valid JSON or lacks nodes / edges.
+ */
+export const parseWorkflowFile = (content: string): WorkflowFile => {
+    let parsed: any;
+    try {
+        parsed = JSON.parse(content);
+    } catch {
+        throw new Error('Failed to parse JSON file.');
+    }
+    if (!parsed || !Array.isArray(parsed.nodes) || !Array.isArray(parsed.edges)) {
+        throw new Error('Invalid workflow file format. Missing nodes or edges arrays.');
+    }
+    return {
+        nodes: parsed.nodes,
+        edges: parsed.edges,
+        settings: parsed.settings,
+        exportedAt: parsed.exportedAt
+    };
+};
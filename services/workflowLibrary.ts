@@ -0,0 +1,69 @@
+import { isTriggerType } from '../types';
+import { WorkflowFile } from './workflowFile';
+import { WORKFLOWS_STORE, openDatabase, requestToPromise, transactionDone } from './database';
+
+/**
+ * Named workflows that sub-workflow nodes can call. The engine only reads from it;
+ * the browser keeps its library in IndexedDB, the CLIs read a directory of exports.
+ */
+export interface WorkflowLibrary {
+    get(name: string): Promise<WorkflowFile | undefined>;
+}
+
+export interface SavedWorkflow {
+    name: string;
+    workflow: WorkflowFile;
+    savedAt: number;
+}
+
+// What the library list and sub-workflow node pickers show
+export interface SavedWorkflowSummary {
+    name: string;
+    savedAt: number;
+    nodeCount: number;
+    inputs: string[]; // Payload fields its trigger maps to variables
+    outputs: string[]; // Declared output variables
+}
+
+const summarize = (saved: SavedWorkflow): SavedWorkflowSummary => {
+    const trigger = saved.workflow.nodes.find(n => isTriggerType(n.type));
+    return {
+        name: saved.name,
+        savedAt: saved.savedAt,
+        nodeCount: saved.workflow.nodes.length,
+        inputs: (trigger?.data.outputMappings || []).map(m => m.field).filter(Boolean),
+        outputs: saved.workflow.settings?.outputVariables || []
+    };
+};
+
+export const indexedDbWorkflowLibrary: WorkflowLibrary = {
+    async get(name) {
+        const db = await openDatabase();
+        const saved = await requestToPromise<SavedWorkflow | undefined>(db.transaction(WORKFLOWS_STORE).objectStore(WORKFLOWS_STORE).get(name));
+        return saved?.workflow;
+    }
+};
+
+export const listSavedWorkflows = async (): Promise<SavedWorkflowSummary[]> => {
+    const db = await openDatabase();
+    const all = await requestToPromise<SavedWorkflow[]>(db.transaction(WORKFLOWS_STORE).objectStore(WORKFLOWS_STORE).getAll());
+    return all.map(summarize).sort((a, b) => a.name.localeCompare(b.name));
+};
+
+/**
+ * Saves a workflow under a name, replacing any saved with the same name.
+ */
+export const saveWorkflowToLibrary = async (name: string, workflow: WorkflowFile): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(WORKFLOWS_STORE, 'readwrite');
+    const saved: SavedWorkflow = { name, workflow, savedAt: Date.now() };
+    tx.objectStore(WORKFLOWS_STORE).put(saved);
+    await transactionDone(tx);
+};
+
+export const deleteSavedWorkflow = async (name: string): Promise<void> => {
+    const db = await openDatabase();
+    const tx = db.transaction(WORKFLOWS_STORE, 'readwrite');
+    tx.objectStore(WORKFLOWS_STORE).delete(name);
+    await transactionDone(tx);
+};
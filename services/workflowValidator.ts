@@ -0,0 +1,210 @@
+import { Node, Edge, ValidationIssue, getEdgeSourceHandle, getSourceHandles, isOutputPinned, isTriggerType } from '../types';
+import { evaluateCondition } from './conditionEvaluator';
+import { findTemplateError } from './templateExpressions';
+import { parseCron, getNextFireTime, isValidTimeZone, getLocalTimeZone } from './cronSchedule';
+
+/**
+ * Finds the nodes taking part in a cycle using a depth-first search.
+ * Returns one list of node ids per cycle found.
+ */
+const findCycles = (nodes: Node[], edges: Edge[]): string[][] => {
+    const adjacency = new Map<string, string[]>();
+    nodes.forEach(n => adjacency.set(n.id, []));
+    edges.forEach(e => {
+        if (adjacency.has(e.source) && adjacency.has(e.target)) {
+            adjacency.get(e.source)!.push(e.target);
+        }
+    });
+
+    const state = new Map<string, 'visiting' | 'done'>();
+    const path: string[] = [];
+    const cycles: string[][] = [];
+
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        path.push(id);
+        for (const next of adjacency.get(id) || []) {
+            if (state.get(next) === 'visiting') {
+                cycles.push(path.slice(path.indexOf(next)));
+            } else if (!state.has(next)) {
+                visit(next);
+            }
+        }
+        path.pop();
+        state.set(id, 'done');
+    };
+
+    nodes.forEach(n => {
+        if (!state.has(n.id)) visit(n.id);
+    });
+    return cycles;
+};
+
+const findReachable = (startId: string, edges: Edge[]): Set<string> => {
+    const reachable = new Set<string>();
+    const stack = [startId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (reachable.has(id)) continue;
+        reachable.add(id);
+        edges.filter(e => e.source === id).forEach(e => stack.push(e.target));
+    }
+    return reachable;
+};
+
+/**
+ * Checks a workflow for problems before it runs.
+ * Errors block execution; warnings are shown but the run may proceed.
+ */
+export const validateWorkflow = (nodes: Node[], edges: Edge[]): ValidationIssue[] => {
+    const issues: ValidationIssue[] = [];
+    const nodeIds = new Set(nodes.map(n => n.id));
+
+    // 1. Trigger
+    const triggers = nodes.filter(n => isTriggerType(n.type));
+    if (triggers.length === 0) {
+        issues.push({ severity: 'error', message: 'No Webhook/Start or Schedule trigger found.' });
+    }
+    triggers.slice(1).forEach(n => {
+        issues.push({
+            nodeId: n.id,
+            severity: 'warning',
+            message: `Only the first trigger ('${triggers[0].data.label}') starts the workflow; this one is ignored.`
+        });
+    });
+
+    // 2. Dangling edges
+    edges.forEach(e => {
+        if (!nodeIds.has(e.source) || !nodeIds.has(e.target)) {
+            issues.push({
+                nodeId: nodeIds.has(e.source) ? e.source : nodeIds.has(e.target) ? e.target : undefined,
+                severity: 'warning',
+                message: 'Connection points to a node that no longer exists.'
+            });
+            return;
+        }
+        const source = nodes.find(n => n.id === e.source)!;
+        if (!getSourceHandles(source).includes(getEdgeSourceHandle(e, source))) {
+            issues.push({
+                nodeId: e.source,
+                severity: 'warning',
+                message: `Connected from the '${e.sourceHandle}' output, which this node no longer has; it will never be followed.`
+            });
+        }
+    });
+
+    // 3. Cycles
+    findCycles(nodes, edges).forEach(cycle => {
+        const labels = cycle.map(id => nodes.find(n => n.id === id)?.data.label || id);
+        cycle.forEach(id => {
+            issues.push({
+                nodeId: id,
+                severity: 'error',
+                message: `Part of a circular connection: ${labels.join(' → ')} → ${labels[0]}.`
+            });
+        });
+    });
+
+    // 4. Disconnected nodes
+    const reachable = triggers.length > 0 ? findReachable(triggers[0].id, edges) : new Set<string>();
+    nodes.forEach(n => {
+        if (triggers.length > 0 && !reachable.has(n.id) && !isTriggerType(n.type)) {
+            issues.push({ nodeId: n.id, severity: 'warning', message: 'Not connected to the trigger; it will never run.' });
+        }
+    });
+
+    // 5. Per-node configuration (only blocking for nodes that will actually run)
+    nodes.forEach(n => {
+        const outgoing = edges.filter(e => e.source === n.id);
+        // Pinned nodes don't execute, so their configuration can be incomplete
+        const configError = reachable.has(n.id) && !isOutputPinned(n) ? 'error' : 'warning';
+        const templates = [n.data.prompt, n.data.apiUrl, n.data.apiBody, ...(n.data.apiHeaders || []).map(h => h.value), ...(n.data.apiQueryParams || []).map(p => p.value), ...(n.data.subWorkflowInputs || []).map(i => i.value)];
+        for (const text of templates) {
+            const templateError = text ? findTemplateError(text) : null;
+            if (templateError) {
+                issues.push({ nodeId: n.id, severity: configError, message: templateError });
+                break;
+            }
+        }
+        switch (n.type) {
+            case 'ai-text':
+            case 'ai-image':
+                if (!n.data.prompt || n.data.prompt.trim() === '') {
+                    issues.push({ nodeId: n.id, severity: 'warning', message: 'No prompt configured.' });
+                }
+                if (n.data.jsonSchema && n.data.jsonSchema.trim() !== '') {
+                    try {
+                        JSON.parse(n.data.jsonSchema);
+                    } catch {
+                        issues.push({ nodeId: n.id, severity: configError, message: 'JSON Response Structure is not valid JSON.' });
+                    }
+                }
+                break;
+            case 'api':
+                if (!n.data.apiUrl || n.data.apiUrl.trim() === '') {
+                    issues.push({ nodeId: n.id, severity: configError, message: 'No endpoint URL configured.' });
+                }
+                break;
+            case 'condition':
+                try {
+                    evaluateCondition(n.data.condition || '', { variables: {} });
+                } catch (e: any) {
+                    issues.push({ nodeId: n.id, severity: configError, message: `Invalid condition: ${e.message}` });
+                }
+                if (outgoing.length === 0) {
+                    issues.push({ nodeId: n.id, severity: 'warning', message: 'Neither the true nor the false branch is connected.' });
+                }
+                break;
+            case 'loop':
+                if (!outgoing.some(e => getEdgeSourceHandle(e, n) === 'body')) {
+                    issues.push({ nodeId: n.id, severity: 'warning', message: 'Nothing is connected to the loop body.' });
+                }
+                break;
+            case 'sub-workflow':
+                if (!n.data.subWorkflowName?.trim()) {
+                    issues.push({ nodeId: n.id, severity: configError, message: 'No sub-workflow selected.' });
+                }
+                break;
+            case 'schedule':
+                if (n.data.scheduleTimezone && !isValidTimeZone(n.data.scheduleTimezone)) {
+                    issues.push({ nodeId: n.id, severity: configError, message: `Unknown time zone '${n.data.scheduleTimezone}'.` });
+                    break;
+                }
+                try {
+                    const schedule = parseCron(n.data.scheduleCron || '');
+                    if (getNextFireTime(schedule, n.data.scheduleTimezone || getLocalTimeZone(), Date.now()) === null) {
+                        issues.push({ nodeId: n.id, severity: 'warning', message: 'The cron expression never matches a date, so the schedule never fires.' });
+                    }
+                } catch (e: any) {
+                    issues.push({ nodeId: n.id, severity: configError, message: `Invalid cron expression: ${e.message}` });
+                }
+                break;
+        }
+    });
+
+    // 6. Variables written by more than one node
+    const writers = new Map<string, Node[]>();
+    nodes.forEach(n => {
+        const names = new Set([n.data.outputVariableName, ...(n.data.outputMappings || []).map(m => m.variable)]
+            .map(name => name?.trim())
+            .filter((name): name is string => !!name));
+        names.forEach(name => writers.set(name, [...(writers.get(name) || []), n]));
+    });
+    writers.forEach((writerNodes, name) => {
+        if (writerNodes.length < 2) return;
+        writerNodes.forEach(n => {
+            const others = writerNodes.filter(o => o !== n).map(o => `'${o.data.label}'`);
+            issues.push({
+                nodeId: n.id,
+                severity: 'warning',
+                message: `Variable '${name}' is also written by ${others.join(', ')}; in a shared scope the last write wins.`
+            });
+        });
+    });
+
+    return issues;
+};
+
+export const hasBlockingIssues = (issues: ValidationIssue[]): boolean => {
+    return issues.some(issue => issue.severity === 'error');
+};
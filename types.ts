@@ -1,6 +1,20 @@
 
-export type NodeType = 'webhook' | 'ai-text' | 'ai-image' | 'condition' | 'loop' | 'api' | 'variable';
+export type NodeType = 'webhook' | 'schedule' | 'ai-text' | 'ai-image' | 'condition' | 'loop' | 'api' | 'variable' | 'sub-workflow';
 export type VariableType = 'text' | 'image' | 'json' | 'any';
+export type NodeStatus = 'idle' | 'running' | 'paused' | 'success' | 'error' | 'cancelled';
+export type ErrorCategory = 'rate-limit' | 'server' | 'network' | 'empty-response' | 'timeout' | 'client' | 'other';
+export type ScopeKind = 'global' | 'branch' | 'loop';
+export type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD' | 'OPTIONS';
+
+export const HTTP_METHODS: HttpMethod[] = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD', 'OPTIONS'];
+
+// Node types that start a run. A workflow has one; it receives the trigger payload.
+export const TRIGGER_TYPES: NodeType[] = ['webhook', 'schedule'];
+
+export const isTriggerType = (type?: NodeType): boolean => !!type && TRIGGER_TYPES.includes(type);
+
+// What to do with fire times that passed while nothing was running the schedule
+export type MissedRunPolicy = 'skip' | 'run-once' | 'run-all';
 
 export interface WebhookFormField {
   id: string;
@@ -9,12 +23,47 @@ export interface WebhookFormField {
   value: string;
 }
 
+export interface KeyValuePair {
+  id: string;
+  key: string;
+  value: string;
+}
+
+export interface RetryPolicy {
+  maxAttempts: number; // Total attempts including the first one
+  backoff: 'fixed' | 'exponential';
+  delayMs: number; // Fixed delay, or the base delay doubled after each exponential attempt
+  retryOn: ErrorCategory[]; // Error categories worth retrying
+}
+
 export interface NodeInput {
   id: string;
   type: 'variable' | 'file';
   value: string; // Variable name or Base64 data
 }
 
+// Tokens billed for Gemini requests, as reported in the response's usageMetadata
+export interface TokenUsage {
+  promptTokens: number;
+  candidatesTokens: number;
+  totalTokens: number;
+}
+
+// Time spent, tokens used and their cost for a node in the last run, summed over loop iterations
+export interface NodeMetrics {
+  durationMs: number;
+  executions: number;
+  usage?: TokenUsage;
+  costUsd?: number;
+}
+
+// USD per million tokens. Image models bill generated images as output tokens.
+export interface ModelPrice {
+  inputPerMillion: number;
+  outputPerMillion: number;
+  imageOutputTokens?: number; // Tokens billed per generated image, for estimates
+}
+
 export interface NodeData {
   label: string;
   description?: string;
@@ -27,24 +76,44 @@ export interface NodeData {
   
   variableName?: string; // For Variable node (legacy)
   outputVariableName?: string; // Name of the variable to store the result in
+  storeGlobally?: boolean; // Write output variables to the run-level scope instead of the node's branch / loop iteration
   // Map JSON fields to specific variables
   outputMappings?: { field: string; variable: string }[]; 
-  condition?: string; // For IF nodes
+  condition?: string; // For IF nodes, e.g. "score > 5 && status == 'ok'"
   apiUrl?: string;
-  apiMethod?: 'GET' | 'POST';
+  apiMethod?: HttpMethod;
+  apiHeaders?: KeyValuePair[];
+  apiQueryParams?: KeyValuePair[];
+  apiBody?: string; // Request body template, supports {{variables}}
+  apiFailOnError?: boolean; // Fail the node on non-2xx responses (default true)
   webhookContentType?: 'json' | 'form-data';
   webhookPayload?: string; // JSON String for mock webhook payload
   webhookFormData?: WebhookFormField[]; // Array of form fields
-  loopArray?: string;
+  webhookPath?: string; // Path served by the local webhook server, e.g. 'orders' for /webhook/orders
+  scheduleCron?: string; // 5-field cron expression, e.g. '0 9 * * MON-FRI'
+  scheduleTimezone?: string; // IANA zone the expression is evaluated in, defaults to the local one
+  scheduleMissedRuns?: MissedRunPolicy; // Default 'run-once'
+  scheduleInBrowser?: boolean; // Fire while the editor is open (the headless runner always fires)
+  subWorkflowName?: string; // Saved workflow a sub-workflow node runs
+  subWorkflowInputs?: KeyValuePair[]; // Fields of its trigger payload; a value that is a single {{placeholder}} keeps the variable's type
+  loopArray?: string; // Variable or path holding the array to iterate, e.g. "trigger_data.products"
   outputValue?: any; // Stores the result after execution
-  status?: 'idle' | 'running' | 'success' | 'error';
+  pinnedOutput?: any; // Used as the node's output instead of executing it (pinned from a run or a typed-in mock)
+  status?: NodeStatus;
   errorMessage?: string;
+  attempt?: number; // Current / last attempt number when a retry policy is active
+  metrics?: NodeMetrics;
+  retryPolicy?: RetryPolicy;
+  timeoutMs?: number; // Per-attempt timeout, overrides the workflow's default for this node type
+  errorHandle?: boolean; // Expose an 'error' output that receives failures instead of ending the branch
+  breakpoint?: boolean; // Pause debug runs before executing this node
   // Advanced AI Settings
   temperature?: number;
   topP?: number;
   topK?: number;
   maxOutputTokens?: number;
   jsonSchema?: string; // JSON String for response schema
+  useCache?: boolean; // Reuse the stored response of an identical earlier AI request
 }
 
 export interface Node {
@@ -58,15 +127,64 @@ export interface Edge {
   id: string;
   source: string;
   target: string;
-  sourceHandle?: string; // 'output' usually
+  sourceHandle?: string; // 'output' usually, 'true' / 'false' for conditions, 'body' / 'done' for loops, 'error' for failures
   targetHandle?: string; // 'input' usually
 }
 
+// Passed along the 'error' handle when a node fails
+export interface NodeErrorOutput {
+  message: string;
+  nodeId: string;
+  nodeLabel: string;
+  category: ErrorCategory;
+  attempts: number;
+  input: any;
+}
+
+// Output of a schedule trigger, available to later nodes as trigger_data
+export interface ScheduleTriggerOutput {
+  scheduledTime: string; // ISO time the cron expression fired for
+  firedAt: string; // ISO time the run actually started
+  timezone: string;
+  cron: string;
+  missed: boolean; // Fired late, for a time that passed while the schedule wasn't running
+  manual?: boolean; // Started with Run rather than by the schedule
+}
+
+export interface ValidationIssue {
+  nodeId?: string; // Missing for workflow-wide problems
+  severity: 'error' | 'warning';
+  message: string;
+}
+
 export interface VariableDefinition {
     name: string;
     type: VariableType;
+    scope?: ScopeKind;
 }
 
+// Workflow-level execution settings, saved and exported alongside nodes and edges
+export interface WorkflowSettings {
+  maxConcurrency?: number; // Max nodes executing at the same time across all branches
+  runTimeoutMs?: number; // Whole-run limit, 0 / undefined for none
+  nodeTimeouts?: Partial<Record<NodeType, number>>; // Default per-attempt timeout per node type
+  budgetUsd?: number; // Stop the run before an AI request that would take its cost past this, 0 / undefined for none
+  modelPrices?: Record<string, ModelPrice>; // Overrides of the default price table, by model id
+  outputVariables?: string[]; // Variables returned to the sub-workflow node calling this workflow
+}
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+// Sub-workflows calling sub-workflows stop here, which also ends accidental recursion
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+// Node types that make external calls and can hang; others finish on their own
+export const DEFAULT_NODE_TIMEOUTS: Partial<Record<NodeType, number>> = {
+  'ai-text': 120000,
+  'ai-image': 300000,
+  api: 60000,
+};
+
 export interface WorkflowState {
   nodes: Node[];
   edges: Edge[];
@@ -75,22 +193,78 @@ export interface WorkflowState {
   executionLog: string[];
 }
 
+export type AiNodeType = 'ai-text' | 'ai-image';
+
+export interface AiModelOption {
+  id: string;
+  label: string;
+  nodeType: AiNodeType;
+}
+
+// Models offered in the model pickers, per AI node type
+export const AI_MODELS: AiModelOption[] = [
+  { id: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash', nodeType: 'ai-text' },
+  { id: 'gemini-2.5-flash-lite-latest', label: 'Gemini Flash Lite', nodeType: 'ai-text' },
+  { id: 'gemini-3-pro-preview', label: 'Gemini 3 Pro', nodeType: 'ai-text' },
+  { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', nodeType: 'ai-image' },
+  { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image (HD)', nodeType: 'ai-image' },
+];
+
+// Used by AI nodes without a model set
+export const DEFAULT_AI_MODELS: Record<AiNodeType, string> = {
+  'ai-text': 'gemini-2.5-flash',
+  'ai-image': 'gemini-2.5-flash-image',
+};
+
 export const NODE_COLORS: Record<NodeType, string> = {
   webhook: 'bg-purple-100 border-purple-500 text-purple-900',
+  schedule: 'bg-teal-100 border-teal-500 text-teal-900',
   'ai-text': 'bg-blue-100 border-blue-500 text-blue-900',
   'ai-image': 'bg-pink-100 border-pink-500 text-pink-900',
   condition: 'bg-orange-100 border-orange-500 text-orange-900',
   loop: 'bg-yellow-100 border-yellow-500 text-yellow-900',
   api: 'bg-green-100 border-green-500 text-green-900',
   variable: 'bg-gray-100 border-gray-500 text-gray-900',
+  'sub-workflow': 'bg-indigo-100 border-indigo-500 text-indigo-900',
+};
+
+// Named output handles per node type. Types not listed expose a single default handle.
+export const DEFAULT_SOURCE_HANDLE = 'output';
+
+export const NODE_SOURCE_HANDLES: Partial<Record<NodeType, string[]>> = {
+  condition: ['true', 'false'],
+  loop: ['body', 'done'],
 };
 
+// Optional extra output that receives an error object when the node fails
+export const ERROR_HANDLE = 'error';
+
+export const getSourceHandles = (node: Node): string[] => {
+  const handles = NODE_SOURCE_HANDLES[node.type] || [DEFAULT_SOURCE_HANDLE];
+  return node.data.errorHandle ? [...handles, ERROR_HANDLE] : handles;
+};
+
+/**
+ * Returns the handle an edge leaves from. Edges created before a node type had
+ * named handles carry no sourceHandle and are treated as leaving the first one.
+ */
+export const getEdgeSourceHandle = (edge: Edge, sourceNode: Node): string => {
+  return edge.sourceHandle || getSourceHandles(sourceNode)[0];
+};
+
+// Conditions pick a branch rather than produce data, so they can't be pinned
+export const canPinOutput = (type: NodeType): boolean => type !== 'condition';
+
+export const isOutputPinned = (node: Node): boolean => canPinOutput(node.type) && node.data.pinnedOutput !== undefined;
+
 export const NODE_ICONS: Record<NodeType, string> = {
   webhook: 'zap',
+  schedule: 'clock',
   'ai-text': 'bot',
   'ai-image': 'image',
   condition: 'split',
   loop: 'repeat',
   api: 'globe',
   variable: 'database',
+  'sub-workflow': 'workflow',
 };